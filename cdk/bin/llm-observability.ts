@@ -18,4 +18,24 @@ new LlmObservabilityStack(app, 'LlmObservabilityStack', {
   // env: { account: '123456789012', region: 'us-east-1' },
 
   /* For more information, see https://docs.aws.amazon.com/cdk/latest/guide/environments.html */
+
+  /* Uncomment the next lines to deny topics, block words or detect PII with the guardrail,
+   * importing Topic, PIIType and GuardrailAction from '@cdklabs/generative-ai-cdk-constructs/lib/cdk-lib/bedrock'. */
+  // guardrailPolicies: {
+  //   deniedTopics: [Topic.FINANCIAL_ADVICE],
+  //   blockedWords: ['internal-codename'],
+  //   piiEntities: [{ type: PIIType.General.EMAIL, action: GuardrailAction.ANONYMIZE }],
+  //   blockedInputMessage: 'I can only help with questions about our products.',
+  // },
+
+  /* Uncomment the next lines to require users to sign in with an OIDC provider such as an Amazon Cognito user pool;
+   * build the frontend with REACT_APP_SIGN_IN_URL set to the provider's authorize URL (response_type=id_token). */
+  // auth: {
+  //   issuer: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_example',
+  //   audience: 'your-app-client-id',
+  // },
+
+  /* Uncomment the next line to only let these origins call the API from a browser; pages served by the
+   * CloudFront distribution itself call it from the same origin and need no entry. */
+  // allowedOrigins: ['https://app.example.com', 'http://localhost:3000'],
 });
\ No newline at end of file
@@ -1,17 +1,62 @@
 import { Stack, StackProps, RemovalPolicy, Duration, CfnOutput} from 'aws-cdk-lib';
 import { Construct } from 'constructs';
-import { Function, Runtime, AssetCode, Tracing, LayerVersion, FunctionUrlAuthType, HttpMethod, Version as LambdaVersion } from 'aws-cdk-lib/aws-lambda';
-import { Table, AttributeType, BillingMode } from 'aws-cdk-lib/aws-dynamodb';
-import { Guardrail, ContentFilterType, ContentFilterStrength } from '@cdklabs/generative-ai-cdk-constructs/lib/cdk-lib/bedrock';
+import { Function, Runtime, AssetCode, Tracing, LayerVersion, FunctionUrlAuthType, InvokeMode, Version as LambdaVersion } from 'aws-cdk-lib/aws-lambda';
+import { Table, AttributeType, BillingMode, ProjectionType } from 'aws-cdk-lib/aws-dynamodb';
+import {
+  Guardrail,
+  ContentFilterType,
+  ContentFilterStrength,
+  ManagedWordFilterType,
+  PIIFilter,
+  Topic
+} from '@cdklabs/generative-ai-cdk-constructs/lib/cdk-lib/bedrock';
 import { S3BucketOrigin, FunctionUrlOrigin } from 'aws-cdk-lib/aws-cloudfront-origins';
 import { Bucket, BlockPublicAccess } from 'aws-cdk-lib/aws-s3';
 import { BucketDeployment, Source} from 'aws-cdk-lib/aws-s3-deployment';
 import { Role, Effect, ServicePrincipal, ManagedPolicy, PolicyStatement } from 'aws-cdk-lib/aws-iam';
-import { Distribution, ViewerProtocolPolicy, AllowedMethods, CfnOriginAccessControl, CfnDistribution, LambdaEdgeEventType } from 'aws-cdk-lib/aws-cloudfront';
+import { Distribution, ViewerProtocolPolicy, AllowedMethods, CfnOriginAccessControl, CfnDistribution, LambdaEdgeEventType, OriginRequestPolicy, OriginRequestHeaderBehavior } from 'aws-cdk-lib/aws-cloudfront';
 import path = require('path');
 
+/**
+ * Guardrail policies applied on top of the content filters
+ */
+export interface GuardrailPolicyOptions {
+  /** Topics the assistant refuses to discuss, e.g. Topic.FINANCIAL_ADVICE or Topic.custom({...}) */
+  readonly deniedTopics?: Topic[];
+  /** Words and phrases blocked in messages and replies */
+  readonly blockedWords?: string[];
+  /** Block the AWS managed profanity list (default true) */
+  readonly blockProfanity?: boolean;
+  /** PII entity types to detect, each blocked or anonymized */
+  readonly piiEntities?: PIIFilter[];
+  /** Refusal shown in place of a blocked user message */
+  readonly blockedInputMessage?: string;
+  /** Refusal shown in place of a blocked model response */
+  readonly blockedOutputMessage?: string;
+}
+
+/**
+ * OIDC provider whose ID tokens identify the users of the chat API
+ */
+export interface AuthOptions {
+  /** Issuer (iss claim) of the ID tokens, e.g. https://cognito-idp.us-east-1.amazonaws.com/us-east-1_example */
+  readonly issuer: string;
+  /** Client ID the ID tokens are issued to (aud claim) */
+  readonly audience: string;
+  /** Where the issuer publishes its signing keys (default: the issuer's /.well-known/jwks.json) */
+  readonly jwksUrl?: string;
+}
+
+export interface LlmObservabilityStackProps extends StackProps {
+  readonly guardrailPolicies?: GuardrailPolicyOptions;
+  /** Require a signed-in user on every chat and session request; without it every session is anonymous */
+  readonly auth?: AuthOptions;
+  /** Origins whose web pages may call the API, e.g. ['https://app.example.com'] (default: every origin) */
+  readonly allowedOrigins?: string[];
+}
+
 export class LlmObservabilityStack extends Stack {
-  constructor(scope: Construct, id: string, props?: StackProps) {
+  constructor(scope: Construct, id: string, props?: LlmObservabilityStackProps) {
     super(scope, id, props);
 
     // Define source paths
@@ -19,19 +64,53 @@ export class LlmObservabilityStack extends Stack {
     const backendPath = path.join(sourceRoot, 'backend/dist/src');
     const frontendBuildPath = path.join(sourceRoot, 'frontend/build');
 
-    // Create DynamoDB table
-    const chatTable = new Table(this, 'ChatTable', {
+    // Create DynamoDB table: one partition per session, holding a session item and its messages
+    const chatTable = new Table(this, 'ChatSessionsTable', {
+      partitionKey: { name: 'sessionId', type: AttributeType.STRING },
+      sortKey: { name: 'sk', type: AttributeType.STRING },
+      timeToLiveAttribute: 'ttl',
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY, // For demo purposes only
+    });
+
+    // List each user's sessions by last activity; only session items carry the owner
+    chatTable.addGlobalSecondaryIndex({
+      indexName: 'owner-index',
+      partitionKey: { name: 'owner', type: AttributeType.STRING },
+      sortKey: { name: 'updatedAt', type: AttributeType.NUMBER },
+      projectionType: ProjectionType.ALL,
+    });
+
+    // Table of the previous data model, kept until its items are copied with scripts/migrate-chat-table.ts
+    const legacyChatTable = new Table(this, 'ChatTable', {
       partitionKey: { name: 'id', type: AttributeType.STRING },
       sortKey: { name: 'timestamp', type: AttributeType.NUMBER },
       timeToLiveAttribute: 'ttl',
       billingMode: BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.RETAIN,
+    });
+
+    // Request and token counters per user and IP address, and quota overrides set with `npm run backend:quota`
+    const quotaTable = new Table(this, 'QuotaTable', {
+      partitionKey: { name: 'subject', type: AttributeType.STRING },
+      sortKey: { name: 'sk', type: AttributeType.STRING },
+      timeToLiveAttribute: 'ttl',
+      billingMode: BillingMode.PAY_PER_REQUEST,
       removalPolicy: RemovalPolicy.DESTROY, // For demo purposes only
     });
 
+    // Days chat data is kept before DynamoDB deletes it; 0 keeps it forever
+    const retentionDays = '30';
+
     // Create Bedrock Guardrails
     const guardrails = new Guardrail(this, 'ChatGuardrails', {
       name: 'llm-observability-guardrails',
       description: 'Guardrails for LLM observability demo',
+      // The backend shows these in place of blocked content
+      blockedInputMessaging: props?.guardrailPolicies?.blockedInputMessage
+        ?? 'Your message was filtered by content safety guardrails.',
+      blockedOutputsMessaging: props?.guardrailPolicies?.blockedOutputMessage
+        ?? "I'm sorry, but I cannot provide a response to that query as it may contain inappropriate content.",
     });
 
     // Add content filters
@@ -53,6 +132,40 @@ export class LlmObservabilityStack extends Stack {
       outputStrength: ContentFilterStrength.LOW,
     });
 
+    guardrails.addContentFilter({
+      type: ContentFilterType.INSULTS,
+      inputStrength: ContentFilterStrength.LOW,
+      outputStrength: ContentFilterStrength.LOW,
+    });
+
+    guardrails.addContentFilter({
+      type: ContentFilterType.MISCONDUCT,
+      inputStrength: ContentFilterStrength.LOW,
+      outputStrength: ContentFilterStrength.LOW,
+    });
+
+    // Prompt attacks only apply to user input
+    guardrails.addContentFilter({
+      type: ContentFilterType.PROMPT_ATTACK,
+      inputStrength: ContentFilterStrength.LOW,
+      outputStrength: ContentFilterStrength.NONE,
+    });
+
+    // Add the denied topics, word filters and sensitive information filters set in the stack props
+    const guardrailPolicies = props?.guardrailPolicies || {};
+    for (const topic of guardrailPolicies.deniedTopics || []) {
+      guardrails.addDeniedTopicFilter(topic);
+    }
+    for (const text of guardrailPolicies.blockedWords || []) {
+      guardrails.addWordFilter({ text });
+    }
+    if (guardrailPolicies.blockProfanity ?? true) {
+      guardrails.addManagedWordListFilter({ type: ManagedWordFilterType.PROFANITY });
+    }
+    for (const entity of guardrailPolicies.piiEntities || []) {
+      guardrails.addPIIFilter(entity);
+    }
+
     // Create a version for deployment - we'll use DRAFT to always get the latest version
     const guardrailVersion = 'DRAFT';
 
@@ -64,6 +177,65 @@ export class LlmObservabilityStack extends Stack {
       `arn:aws:lambda:${Stack.of(this).region}:901920570463:layer:aws-otel-nodejs-amd64-ver-1-30-1:2`
     );
 
+    // Telemetry settings shared by both chat functions
+    const telemetryEnvironment = {
+      LLM_LEGACY_ATTRIBUTES: 'true', // Keep llm.* span attributes next to gen_ai.* while dashboards migrate
+      OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT: 'false', // No message content from auto-instrumentation; CONTENT_CAPTURE_POLICY governs content
+      OTEL_PROPAGATORS: 'tracecontext,baggage,xray', // Continue traces started in the browser
+      CONTENT_CAPTURE_POLICY: 'redacted', // Prompt and completion text kept in spans, logs and DynamoDB: off, redacted or full
+      REDACTION_PATTERNS: '[]' // JSON array of extra regular expressions to mask
+    };
+
+    // How much of a conversation is sent to the model, shared by both chat functions
+    const historyEnvironment = {
+      HISTORY_STRATEGY: 'auto', // full, sliding_window, pin_first or summarize; auto picks one from the model's context window
+      HISTORY_TOKEN_BUDGET: '32000', // Cap on the estimated tokens of history per call; 0 uses the context window
+      SUMMARY_MODEL_ID: 'us.amazon.nova-lite-v1:0' // Model that summarizes older turns
+    };
+
+    // How model and guardrail calls recover from throttling and outages, shared by both chat functions
+    const resilienceEnvironment = {
+      MODEL_MAX_ATTEMPTS: '3', // Attempts per model, including the first, before moving on to its fallback
+      MODEL_RETRY_BASE_DELAY_MS: '200', // Backoff before the first retry, doubled for each further retry
+      MODEL_RETRY_MAX_DELAY_MS: '2000', // Longest backoff between retries
+      CIRCUIT_BREAKER_FAILURES: '5', // Consecutive failures that stop calls to a model
+      CIRCUIT_BREAKER_COOLDOWN_MS: '30000' // How long a model is skipped before a trial call
+    };
+
+    // What happens to content the guardrail could not evaluate, per source, shared by both chat functions
+    const guardrailFailureEnvironment = {
+      GUARDRAIL_FAILURE_MODE_INPUT: 'open', // open lets unchecked messages through; closed refuses them with a 503
+      GUARDRAIL_FAILURE_MODE_OUTPUT: 'open' // closed replaces unchecked replies with a notice
+    };
+
+    // How content filter confidences are scored and graded, shared by both chat functions
+    const guardrailCalibrationEnvironment = {
+      GUARDRAIL_CONFIDENCE_SCORES: JSON.stringify({ NONE: 0, LOW: 0.3, MEDIUM: 0.7, HIGH: 1.0 }), // Score of each confidence level
+      GUARDRAIL_THRESHOLDS: JSON.stringify({ default: { warn: 0.5 } }) // Warn and block scores, per category or default
+    };
+
+    // Who may use the chat API, shared by both chat functions; no issuer leaves requests anonymous
+    const authEnvironment = {
+      OIDC_ISSUER: props?.auth?.issuer || '',
+      OIDC_AUDIENCE: props?.auth?.audience || '',
+      ...(props?.auth?.jwksUrl ? { OIDC_JWKS_URL: props.auth.jwksUrl } : {})
+    };
+
+    // Origins allowed to call the API from a browser, checked by both chat functions
+    const allowedOrigins = props?.allowedOrigins?.length ? props.allowedOrigins : ['*'];
+    const corsEnvironment = {
+      ALLOWED_ORIGINS: allowedOrigins.join(',')
+    };
+
+    // Limits per signed-in user and per client IP address, shared by both chat functions; 0 is unlimited
+    const quotaEnvironment = {
+      QUOTA_TABLE_NAME: quotaTable.tableName,
+      QUOTA_USER_REQUESTS_PER_MINUTE: '20', // Chat requests per user per minute
+      QUOTA_USER_TOKENS_PER_DAY: '200000', // Model input and output tokens per user per UTC day
+      QUOTA_IP_REQUESTS_PER_MINUTE: '60', // Chat requests per IP address per minute, anonymous users included
+      QUOTA_IP_TOKENS_PER_DAY: '500000' // Model tokens per IP address per UTC day
+    };
+
     // Create Lambda function
     const chatFunction = new Function(this, 'ChatFunction', {
       runtime: Runtime.NODEJS_22_X,
@@ -73,23 +245,51 @@ export class LlmObservabilityStack extends Stack {
       tracing: Tracing.ACTIVE, // Enable tracing
       environment: {
         TABLE_NAME: chatTable.tableName,
+        RETENTION_DAYS: retentionDays,
+        ...authEnvironment,
+        ...corsEnvironment,
+        ...quotaEnvironment,
+        ...historyEnvironment,
+        ...resilienceEnvironment,
         GUARDRAIL_ID: guardrails.guardrailId,
         GUARDRAIL_VERSION: guardrailVersion,
+        ...guardrailFailureEnvironment,
+        ...guardrailCalibrationEnvironment,
+        SPECULATIVE_MODEL_CALL: 'false', // true calls the model while the input guardrail runs, cancelling it if the input is blocked
+        ...telemetryEnvironment,
         AWS_LAMBDA_EXEC_WRAPPER: '/opt/otel-handler'
       }, // Thanks to AWS_LAMBDA_EXEC_WRAPPER, Lambda execution is traced by otel-hander.
       layers: [powertoolsLayer]
     });
 
-    // Add required permissions for Application Signals
-    chatFunction.role?.addManagedPolicy(
-      ManagedPolicy.fromAwsManagedPolicyName('CloudWatchLambdaApplicationSignalsExecutionRolePolicy')
-    );
-
-    // Grant Lambda permissions to access DynamoDB
-    chatTable.grantReadWriteData(chatFunction);
+    // Create Lambda function for streaming chat responses through a RESPONSE_STREAM function URL
+    const chatStreamFunction = new Function(this, 'ChatStreamFunction', {
+      runtime: Runtime.NODEJS_22_X,
+      code: new AssetCode(backendPath),
+      handler: 'index.streamHandler',
+      timeout: Duration.minutes(5), // Extended for streaming responses
+      tracing: Tracing.ACTIVE, // Enable tracing
+      environment: {
+        TABLE_NAME: chatTable.tableName,
+        RETENTION_DAYS: retentionDays,
+        ...authEnvironment,
+        ...corsEnvironment,
+        ...quotaEnvironment,
+        ...historyEnvironment,
+        ...resilienceEnvironment,
+        GUARDRAIL_ID: guardrails.guardrailId,
+        GUARDRAIL_VERSION: guardrailVersion,
+        ...guardrailFailureEnvironment,
+        ...guardrailCalibrationEnvironment,
+        STREAM_GUARDRAIL_WINDOW: '400', // Characters streamed between output guardrail checks
+        ...telemetryEnvironment,
+        AWS_LAMBDA_EXEC_WRAPPER: '/opt/otel-handler'
+      },
+      layers: [powertoolsLayer]
+    });
 
     // Grant Lambda permissions to access all Amazon Bedrock models
-    chatFunction.addToRolePolicy(new PolicyStatement({
+    const bedrockPolicy = new PolicyStatement({
       effect: Effect.ALLOW,
       actions: [
         'bedrock:InvokeModel',
@@ -102,7 +302,20 @@ export class LlmObservabilityStack extends Stack {
         'arn:aws:bedrock:*:*:application-inference-profile/*',
         guardrails.guardrailArn
       ],
-    }));
+    });
+
+    for (const fn of [chatFunction, chatStreamFunction]) {
+      // Add required permissions for Application Signals
+      fn.role?.addManagedPolicy(
+        ManagedPolicy.fromAwsManagedPolicyName('CloudWatchLambdaApplicationSignalsExecutionRolePolicy')
+      );
+
+      // Grant Lambda permissions to access DynamoDB
+      chatTable.grantReadWriteData(fn);
+      quotaTable.grantReadWriteData(fn);
+
+      fn.addToRolePolicy(bedrockPolicy);
+    }
     
     // Create S3 bucket for frontend hosting
     const websiteBucket = new Bucket(this, 'WebsiteBucket', {
@@ -115,13 +328,14 @@ export class LlmObservabilityStack extends Stack {
     });
     
     // Create Endpoint by Function URL with restricted access
+    // The URLs have no CORS settings: the functions answer preflight requests and set the CORS headers themselves
     const functionUrl = chatFunction.addFunctionUrl({
       authType: FunctionUrlAuthType.AWS_IAM, // Use IAM authentication for better security
-      cors: {
-        allowedOrigins: ['*'], // We'll set this to a more restrictive value in production
-        allowedMethods: [HttpMethod.ALL],
-        allowedHeaders: ['Content-Type', 'X-Identity-Role-Arn', 'X-Amz-Content-Sha256'],
-      },
+    });
+
+    const streamFunctionUrl = chatStreamFunction.addFunctionUrl({
+      authType: FunctionUrlAuthType.AWS_IAM,
+      invokeMode: InvokeMode.RESPONSE_STREAM, // Send tokens to the client as soon as they are generated
     });
     
     // Create the edge auth function for CloudFront using Lambda@Edge
@@ -160,6 +374,12 @@ export class LlmObservabilityStack extends Stack {
       },
     });
 
+    // Forward the W3C trace context headers and the user's ID token set by the frontend to the Lambda function URLs,
+    // with the viewer's IP address that quotas are counted against
+    const traceContextPolicy = new OriginRequestPolicy(this, 'TraceContextOriginRequestPolicy', {
+      headerBehavior: OriginRequestHeaderBehavior.allowList('traceparent', 'tracestate', 'x-id-token', 'cloudfront-viewer-address'),
+    });
+
     // Create CloudFront distribution with function association
     const distribution = new Distribution(this, 'Distribution', {
       defaultBehavior: {
@@ -168,10 +388,23 @@ export class LlmObservabilityStack extends Stack {
         allowedMethods: AllowedMethods.ALLOW_GET_HEAD
       },
       additionalBehaviors: {
+        // Must be listed before '/api/*' so that CloudFront matches it first
+        '/api/stream': {
+          origin: FunctionUrlOrigin.withOriginAccessControl(streamFunctionUrl),
+          viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          allowedMethods: AllowedMethods.ALLOW_ALL,
+          originRequestPolicy: traceContextPolicy,
+          edgeLambdas: [{
+            functionVersion: edgeAuthVersion,
+            eventType: LambdaEdgeEventType.VIEWER_REQUEST,
+            includeBody: true
+          }]
+        },
         '/api/*': {
           origin: FunctionUrlOrigin.withOriginAccessControl(functionUrl),
           viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
           allowedMethods: AllowedMethods.ALLOW_ALL,
+          originRequestPolicy: traceContextPolicy,
           edgeLambdas: [{
             functionVersion: edgeAuthVersion,
             eventType: LambdaEdgeEventType.VIEWER_REQUEST,
@@ -190,16 +423,19 @@ export class LlmObservabilityStack extends Stack {
     });
     
     // Access the L1 CloudFront Distribution construct to set the Origin Access Control ID
-    // We assume Origin.1 is API origin setting.
+    // We assume Origin.1 and Origin.2 are the streaming and API origin settings.
     const cfnDistribution = distribution.node.defaultChild as CfnDistribution;
     cfnDistribution.addPropertyOverride('DistributionConfig.Origins.1.OriginAccessControlId', apiOriginAccessControl.attrId);
+    cfnDistribution.addPropertyOverride('DistributionConfig.Origins.2.OriginAccessControlId', apiOriginAccessControl.attrId);
     
-    // Grant the CloudFront identity permission to invoke the Lambda function URL
-    chatFunction.addPermission('InvokePermission', {
-      principal: new ServicePrincipal('cloudfront.amazonaws.com'),
-      action: 'lambda:InvokeFunctionUrl',
-      sourceArn: `arn:aws:cloudfront::${this.account}:distribution/${distribution.distributionId}`
-    });
+    // Grant the CloudFront identity permission to invoke the Lambda function URLs
+    for (const fn of [chatFunction, chatStreamFunction]) {
+      fn.addPermission('InvokePermission', {
+        principal: new ServicePrincipal('cloudfront.amazonaws.com'),
+        action: 'lambda:InvokeFunctionUrl',
+        sourceArn: `arn:aws:cloudfront::${this.account}:distribution/${distribution.distributionId}`
+      });
+    }
 
     // Deploy frontend to S3
     new BucketDeployment(this, 'DeployWebsite', {
@@ -217,6 +453,28 @@ export class LlmObservabilityStack extends Stack {
       description: 'URL for the chat Lambda function',
     });
 
+    new CfnOutput(this, 'ChatStreamFunctionUrl', {
+      value: streamFunctionUrl.url,
+      description: 'URL for the streaming chat Lambda function',
+    });
+
+    // Output the table names for the migration script
+    new CfnOutput(this, 'ChatTableName', {
+      value: chatTable.tableName,
+      description: 'Name of the chat sessions table',
+    });
+
+    new CfnOutput(this, 'LegacyChatTableName', {
+      value: legacyChatTable.tableName,
+      description: 'Name of the chat table of the previous data model',
+    });
+
+    // Output the quota table name for the quota override script
+    new CfnOutput(this, 'QuotaTableName', {
+      value: quotaTable.tableName,
+      description: 'Name of the table of quota counters and overrides',
+    });
+
     new CfnOutput(this, 'CloudFrontUrl', {
       value: `https://${distribution.distributionDomainName}`,
       description: 'URL for the frontend application',
@@ -0,0 +1,93 @@
+/**
+ * Measure how much overlapping the stages of a chat request saves
+ *
+ * Runs the JSON handler against the mock model provider and the in-memory table, both given
+ * fixed latencies, and compares the time a request took with the sum of its stage durations
+ * (`llm.stage.*_ms` on the request span), which is what running the stages one after another
+ * would take. Each mode is run a few times and the median is reported.
+ *
+ * Usage: npm run benchmark
+ */
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import * as api from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { handler } from '../src/index';
+import { MockModelProvider, setModelProvider } from '../src/providers';
+import { MemoryTable } from '../tests/helpers/memory-table';
+import 'jest';
+
+const MODEL_ID = 'us.amazon.nova-pro-v1:0';
+const RUNS = 5;
+
+// Latencies of the fake services, in milliseconds
+const GUARDRAIL_LATENCY = 150;
+const MODEL_LATENCY = 400;
+const TABLE_LATENCY = 20;
+
+const STAGES = ['input_guardrail', 'history_load', 'store_message', 'model', 'output_guardrail', 'store_reply'];
+
+interface Measurement {
+  elapsedMs: number;
+  serialMs: number;
+}
+
+const median = (values: number[]): number => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+describe('chat request pipeline', () => {
+  const exporter = new InMemorySpanExporter();
+  api.trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  api.context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+  beforeEach(() => {
+    setModelProvider(new MockModelProvider()
+      .setLatency('applyGuardrail', GUARDRAIL_LATENCY)
+      .setLatency('converse', MODEL_LATENCY));
+    new MemoryTable().install().latencyMs = TABLE_LATENCY;
+    exporter.reset();
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+    delete process.env.SPECULATIVE_MODEL_CALL;
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Send requests and measure each against the sum of its stages
+   */
+  async function measure(): Promise<Measurement> {
+    const measurements: Measurement[] = [];
+    for (let i = 0; i < RUNS; i++) {
+      exporter.reset();
+      const startTime = Date.now();
+      const response = await handler({ httpMethod: 'POST', path: '/api/', body: JSON.stringify({ modelId: MODEL_ID, message: 'Hi there' }) } as APIGatewayProxyEvent);
+      const elapsedMs = Date.now() - startTime;
+      expect(response.statusCode).toBe(200);
+
+      const requestSpan = exporter.getFinishedSpans().find(span => span.name === 'llm-observability-backend')!;
+      const serialMs = STAGES.reduce((total, stage) => total + Number(requestSpan.attributes[`llm.stage.${stage}_ms`] || 0), 0);
+      measurements.push({ elapsedMs, serialMs });
+    }
+    return {
+      elapsedMs: median(measurements.map(measurement => measurement.elapsedMs)),
+      serialMs: median(measurements.map(measurement => measurement.serialMs))
+    };
+  }
+
+  test('should take less than the stages one after another', async () => {
+    const concurrent = await measure();
+    process.env.SPECULATIVE_MODEL_CALL = 'true';
+    const speculative = await measure();
+
+    console.table({
+      concurrent: { ...concurrent, savedMs: concurrent.serialMs - concurrent.elapsedMs },
+      speculative: { ...speculative, savedMs: speculative.serialMs - speculative.elapsedMs }
+    });
+
+    // The history load hides behind the input guardrail
+    expect(concurrent.elapsedMs).toBeLessThan(concurrent.serialMs);
+    // The model call hides the input guardrail as well
+    expect(speculative.elapsedMs).toBeLessThan(concurrent.elapsedMs - GUARDRAIL_LATENCY / 2);
+  }, 60000);
+});
@@ -0,0 +1,145 @@
+/**
+ * Copy the items of the previous chat table into the sessions table
+ *
+ * The previous table keyed messages by session ID and timestamp, so messages written in the same
+ * millisecond overwrote each other, and kept session totals in a `session#<id>` item. This script
+ * rewrites every session into the layout described in src/chat-table.ts: a session item with owner,
+ * title, message count and cost totals, and one item per message under a unique sort key.
+ * Message IDs are derived from the old keys, so running it again overwrites instead of duplicating.
+ *
+ * Usage: npm run migrate -- [--dry-run]
+ * The table names are read from SOURCE_TABLE and TARGET_TABLE, or else from the
+ * LegacyChatTableName and ChatTableName outputs of the LlmObservabilityStack stack.
+ */
+import { CloudFormationClient, DescribeStacksCommand } from '@aws-sdk/client-cloudformation';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ANONYMOUS_OWNER,
+  BATCH_WRITE_LIMIT,
+  sessionKey,
+  messageSortKey,
+  expiresAt,
+  getRetentionDays,
+  writeBatch
+} from '../src/chat-table';
+
+type Item = Record<string, any>;
+
+const STACK_NAME = 'LlmObservabilityStack';
+const LEGACY_SESSION_PREFIX = 'session#';
+// Characters of the first user message kept as the session title, as in the handler
+const SESSION_TITLE_LENGTH = 60;
+
+/**
+ * Turn the items of the previous table into items of the sessions table
+ * Sessions stored before session items existed get one built from their messages.
+ * @param legacyItems - Items of the previous table, in any order
+ * @param owner - The owner given to every session
+ * @param retentionDays - Retention period used to compute `ttl`
+ * @returns Items to write to the sessions table
+ */
+export function migrateItems(legacyItems: Item[], owner: string = ANONYMOUS_OWNER, retentionDays: number = getRetentionDays()): Item[] {
+  const sessions = new Map<string, { summary?: Item; messages: Item[] }>();
+  for (const item of legacyItems) {
+    const isSummary = String(item.id).startsWith(LEGACY_SESSION_PREFIX);
+    const sessionId = isSummary ? String(item.id).slice(LEGACY_SESSION_PREFIX.length) : String(item.id);
+    const session = sessions.get(sessionId) || { messages: [] };
+    if (isSummary) {
+      session.summary = item;
+    } else {
+      session.messages.push(item);
+    }
+    sessions.set(sessionId, session);
+  }
+
+  const items: Item[] = [];
+  for (const [sessionId, { summary = {}, messages }] of sessions) {
+    messages.sort((a, b) => a.timestamp - b.timestamp);
+    const { id, timestamp, ...totals } = summary;
+    const firstUserMessage = messages.find(msg => msg.role === 'user');
+    const lastActivity = Math.max(summary.updatedAt || 0, messages[messages.length - 1]?.timestamp || 0);
+    const ttl = expiresAt(lastActivity, retentionDays);
+    items.push({
+      ...totals,
+      ...sessionKey(sessionId),
+      owner,
+      title: summary.title ?? (firstUserMessage?.content || '').slice(0, SESSION_TITLE_LENGTH),
+      createdAt: summary.createdAt || messages[0]?.timestamp || lastActivity,
+      updatedAt: lastActivity,
+      // The message count is the session version, and the sequence of the next message
+      messageCount: messages.length,
+      ...(ttl !== undefined ? { ttl } : {})
+    });
+
+    messages.forEach((message, index) => {
+      const { id, messageId, ...rest } = message;
+      const newId = messageId || `legacy-${message.timestamp}`;
+      const messageTtl = expiresAt(message.timestamp, retentionDays);
+      items.push({
+        ...rest,
+        id: newId,
+        sessionId,
+        sk: messageSortKey(index + 1, newId),
+        ...(messageTtl !== undefined ? { ttl: messageTtl } : {})
+      });
+    });
+  }
+  return items;
+}
+
+/**
+ * Resolve the source and target table names
+ * @returns The previous table and the sessions table
+ */
+async function getTableNames(): Promise<{ source: string; target: string }> {
+  if (process.env.SOURCE_TABLE && process.env.TARGET_TABLE) {
+    return { source: process.env.SOURCE_TABLE, target: process.env.TARGET_TABLE };
+  }
+  const response = await new CloudFormationClient().send(new DescribeStacksCommand({ StackName: STACK_NAME }));
+  const outputs = response.Stacks?.[0].Outputs || [];
+  const output = (key: string) => outputs.find(candidate => candidate.OutputKey === key)?.OutputValue;
+  const source = process.env.SOURCE_TABLE || output('LegacyChatTableName');
+  const target = process.env.TARGET_TABLE || output('ChatTableName');
+  if (!source || !target) {
+    throw new Error(`Set SOURCE_TABLE and TARGET_TABLE, or deploy ${STACK_NAME} with the table name outputs`);
+  }
+  return { source, target };
+}
+
+/**
+ * Run the migration
+ * @param dryRun - Only report what would be written
+ */
+async function main(dryRun: boolean): Promise<void> {
+  const docClient = DynamoDBDocumentClient.from(new DynamoDBClient());
+  const { source, target } = await getTableNames();
+
+  const legacyItems: Item[] = [];
+  let exclusiveStartKey: Item | undefined;
+  do {
+    const response = await docClient.send(new ScanCommand({ TableName: source, ExclusiveStartKey: exclusiveStartKey }));
+    legacyItems.push(...(response.Items || []));
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  const items = migrateItems(legacyItems);
+  const sessionCount = items.filter(item => item.owner !== undefined).length;
+  console.log(`Read ${legacyItems.length} items from ${source}: ${sessionCount} sessions, ${items.length - sessionCount} messages`);
+  if (dryRun) {
+    console.log(`Dry run: nothing written to ${target}`);
+    return;
+  }
+
+  for (let i = 0; i < items.length; i += BATCH_WRITE_LIMIT) {
+    await writeBatch(docClient, target, items.slice(i, i + BATCH_WRITE_LIMIT).map(item => ({ PutRequest: { Item: item } })));
+  }
+  console.log(`Wrote ${items.length} items to ${target}`);
+}
+
+if (require.main === module) {
+  main(process.argv.includes('--dry-run')).catch(error => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
+}
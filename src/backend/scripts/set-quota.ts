@@ -0,0 +1,105 @@
+/**
+ * Override the quotas of a user, or remove the override
+ *
+ * Writes the `override` item of the user's partition in the quota table (see src/quota.ts). Limits left
+ * out keep the defaults of the chat functions; 0 makes a limit unlimited.
+ *
+ * Usage: npm run quota -- <user ID> [--requests-per-minute <n>] [--tokens-per-day <n>] [--clear]
+ * The table name is read from QUOTA_TABLE_NAME, or else from the QuotaTableName output of the
+ * LlmObservabilityStack stack.
+ */
+import { CloudFormationClient, DescribeStacksCommand } from '@aws-sdk/client-cloudformation';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { OVERRIDE_SORT_KEY, QuotaLimits, subjectKey } from '../src/quota';
+
+const STACK_NAME = 'LlmObservabilityStack';
+
+const LIMIT_OPTIONS: Record<string, keyof QuotaLimits> = {
+  '--requests-per-minute': 'requestsPerMinute',
+  '--tokens-per-day': 'tokensPerDay'
+};
+
+/**
+ * What to do with the quotas of a user
+ */
+export interface QuotaOverride {
+  userId: string;
+  limits: Partial<QuotaLimits>;
+  clear: boolean;
+}
+
+/**
+ * Parse the command line
+ * @param args - Arguments after the script name
+ * @returns The override to write or remove
+ */
+export function parseArgs(args: string[]): QuotaOverride {
+  const override: QuotaOverride = { userId: '', limits: {}, clear: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--clear') {
+      override.clear = true;
+    } else if (LIMIT_OPTIONS[arg]) {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`${arg} takes a whole number of 0 or more`);
+      }
+      override.limits[LIMIT_OPTIONS[arg]] = value;
+    } else if (!arg.startsWith('--') && !override.userId) {
+      override.userId = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (!override.userId) {
+    throw new Error('Give the ID of the user (the sub claim of their ID token)');
+  }
+  if (!override.clear && Object.keys(override.limits).length === 0) {
+    throw new Error('Give --requests-per-minute, --tokens-per-day or --clear');
+  }
+  return override;
+}
+
+/**
+ * Find the quota table
+ * @returns Table name
+ */
+async function getTableName(): Promise<string> {
+  if (process.env.QUOTA_TABLE_NAME) {
+    return process.env.QUOTA_TABLE_NAME;
+  }
+  const response = await new CloudFormationClient().send(new DescribeStacksCommand({ StackName: STACK_NAME }));
+  const table = response.Stacks?.[0].Outputs?.find(output => output.OutputKey === 'QuotaTableName')?.OutputValue;
+  if (!table) {
+    throw new Error(`Set QUOTA_TABLE_NAME, or deploy ${STACK_NAME} with the QuotaTableName output`);
+  }
+  return table;
+}
+
+/**
+ * Write or remove the override
+ * @param override - The parsed command line
+ */
+async function main(override: QuotaOverride): Promise<void> {
+  const docClient = DynamoDBDocumentClient.from(new DynamoDBClient());
+  const table = await getTableName();
+  const key = { subject: subjectKey({ scope: 'user', id: override.userId }), sk: OVERRIDE_SORT_KEY };
+
+  if (override.clear) {
+    await docClient.send(new DeleteCommand({ TableName: table, Key: key }));
+    console.log(`Removed the quota override of ${override.userId}; the defaults apply`);
+    return;
+  }
+  await docClient.send(new PutCommand({ TableName: table, Item: { ...key, ...override.limits, updatedAt: Date.now() } }));
+  console.log(`Set the quotas of ${override.userId}: ${JSON.stringify(override.limits)}`);
+}
+
+if (require.main === module) {
+  Promise.resolve()
+    .then(() => main(parseArgs(process.argv.slice(2))))
+    .catch(error => {
+      console.error('Setting the quota failed:', error);
+      process.exit(1);
+    });
+}
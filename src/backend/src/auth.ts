@@ -0,0 +1,207 @@
+import { createPublicKey, JsonWebKey, KeyObject, verify } from 'crypto';
+import { ANONYMOUS_OWNER } from './chat-table';
+
+// Header carrying the user's OIDC ID token; CloudFront re-signs the Authorization header for the function URLs
+export const ID_TOKEN_HEADER = 'x-id-token';
+
+// Signing algorithm accepted for ID tokens
+const SUPPORTED_ALGORITHM = 'RS256';
+// Leeway for clocks drifting between the issuer and Lambda when checking exp and nbf
+const CLOCK_SKEW_SECONDS = 60;
+// How long fetched signing keys are used before the JWKS is fetched again
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+// Shortest time between fetches triggered by a token signed with an unknown key
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+/**
+ * The OIDC provider whose ID tokens are accepted
+ */
+export interface AuthConfig {
+  issuer: string;
+  // Client ID the tokens must be issued to
+  audience: string;
+  jwksUrl: string;
+}
+
+/**
+ * The user a request was verified to come from
+ */
+export interface AuthenticatedUser {
+  // Subject of the ID token, used as the owner of the user's sessions
+  userId: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Error thrown when a request carries no valid ID token
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+interface SigningKeys {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+}
+
+// Signing keys of each JWKS URL, kept for the lifetime of the Lambda execution environment
+const jwksCache = new Map<string, SigningKeys>();
+
+/**
+ * Get the OIDC provider to verify ID tokens against
+ * Authentication is on when OIDC_ISSUER is set; OIDC_AUDIENCE is the client ID and OIDC_JWKS_URL
+ * defaults to the issuer's /.well-known/jwks.json.
+ * @returns Auth config, or undefined if requests are not authenticated
+ */
+export function getAuthConfig(): AuthConfig | undefined {
+  const issuer = process.env.OIDC_ISSUER;
+  if (!issuer) {
+    return undefined;
+  }
+  return {
+    issuer,
+    audience: process.env.OIDC_AUDIENCE || '',
+    jwksUrl: process.env.OIDC_JWKS_URL || `${issuer.replace(/\/$/, '')}/.well-known/jwks.json`
+  };
+}
+
+/**
+ * Forget the cached signing keys, e.g. between tests
+ */
+export function resetJwksCache(): void {
+  jwksCache.clear();
+}
+
+/**
+ * Fetch the RSA signing keys published by the issuer
+ * @param jwksUrl - The JWKS URL
+ * @returns Public keys by key ID
+ */
+async function fetchSigningKeys(jwksUrl: string): Promise<Map<string, KeyObject>> {
+  const response = await fetch(jwksUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS from ${jwksUrl}: ${response.status}`);
+  }
+  const { keys = [] } = await response.json() as { keys?: (JsonWebKey & { kid?: string; use?: string })[] };
+  const signingKeys = new Map<string, KeyObject>();
+  for (const jwk of keys) {
+    if (jwk.kty === 'RSA' && jwk.kid && (!jwk.use || jwk.use === 'sig')) {
+      signingKeys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+  return signingKeys;
+}
+
+/**
+ * Get the key an ID token was signed with
+ * The JWKS is fetched again when it is stale, or when the key is unknown (the issuer rotated its keys)
+ * and the last fetch was a while ago.
+ * @param jwksUrl - The JWKS URL
+ * @param kid - The key ID from the token header
+ * @param now - The current time, in milliseconds
+ * @returns The public key, or undefined if the issuer does not publish it
+ */
+async function getSigningKey(jwksUrl: string, kid: string, now: number): Promise<KeyObject | undefined> {
+  let cached = jwksCache.get(jwksUrl);
+  const isStale = !cached || now - cached.fetchedAt >= JWKS_CACHE_MS;
+  const isUnknown = !!cached && !cached.keys.has(kid) && now - cached.fetchedAt >= JWKS_MIN_REFRESH_MS;
+  if (isStale || isUnknown) {
+    cached = { keys: await fetchSigningKeys(jwksUrl), fetchedAt: now };
+    jwksCache.set(jwksUrl, cached);
+  }
+  return cached!.keys.get(kid);
+}
+
+/**
+ * Decode a base64url-encoded JSON segment of a token
+ * @param segment - The segment
+ * @returns The decoded object
+ */
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new AuthError('Malformed ID token');
+}
+
+/**
+ * Verify an ID token: its signature, issuer, audience and validity period
+ * @param token - The compact-serialized JWT
+ * @param config - The OIDC provider
+ * @param now - The current time, in milliseconds
+ * @returns The user the token was issued to
+ */
+export async function verifyIdToken(token: string, config: AuthConfig, now: number = Date.now()): Promise<AuthenticatedUser> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthError('Malformed ID token');
+  }
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const claims = decodeSegment(encodedPayload);
+
+  if (header.alg !== SUPPORTED_ALGORITHM || typeof header.kid !== 'string') {
+    throw new AuthError(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+  const key = await getSigningKey(config.jwksUrl, header.kid, now);
+  if (!key || !verify('sha256', Buffer.from(`${encodedHeader}.${encodedPayload}`), key, Buffer.from(signature, 'base64url'))) {
+    throw new AuthError('Invalid ID token signature');
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== config.issuer) {
+    throw new AuthError('ID token from an unexpected issuer');
+  }
+  if (!audiences.includes(config.audience)) {
+    throw new AuthError('ID token for an unexpected audience');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= nowSeconds) {
+    throw new AuthError('ID token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw new AuthError('ID token not yet valid');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new AuthError('ID token without a subject');
+  }
+  return { userId: claims.sub, claims };
+}
+
+/**
+ * Identify the user sending a request
+ * @param headers - The HTTP request headers
+ * @param config - The OIDC provider, or undefined if requests are not authenticated
+ * @returns The verified user, or undefined if authentication is off and the request is anonymous
+ */
+export async function authenticate(
+  headers: Record<string, string | undefined> | null | undefined,
+  config: AuthConfig | undefined = getAuthConfig()
+): Promise<AuthenticatedUser | undefined> {
+  if (!config) {
+    return undefined;
+  }
+  const value = Object.entries(headers || {}).find(([name]) => name.toLowerCase() === ID_TOKEN_HEADER)?.[1];
+  const token = value?.replace(/^Bearer\s+/i, '').trim();
+  if (!token) {
+    throw new AuthError('Sign-in required');
+  }
+  return verifyIdToken(token, config);
+}
+
+/**
+ * Get the owner of the sessions of a user
+ * @param user - The verified user, or undefined for anonymous requests
+ * @returns The user ID, or the anonymous owner
+ */
+export function toOwner(user: AuthenticatedUser | undefined): string {
+  return user?.userId ?? ANONYMOUS_OWNER;
+}
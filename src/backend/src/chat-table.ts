@@ -0,0 +1,160 @@
+/**
+ * Layout of the chat table
+ * Every item of a session shares the `sessionId` partition key. The sort key `sk` is `session` for
+ * the session item (owner, title, message count, cost totals) and `msg#<sequence>#<message id>`
+ * for messages, where the sequence is the session's message count after the message was appended.
+ * A session thus reads back in order with one query, and messages written in the same millisecond
+ * neither overwrite nor overtake each other. Only session items carry `owner`, which makes the owner
+ * index a sparse index listing each user's sessions by last activity; messages record the `userId`
+ * of the user whose turn they belong to.
+ */
+
+import { BatchWriteCommand, BatchWriteCommandOutput, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { RetryPolicy, withRetries } from './resilience';
+
+export const SESSION_SORT_KEY = 'session';
+export const MESSAGE_SORT_KEY_PREFIX = 'msg#';
+export const OWNER_INDEX_NAME = 'owner-index';
+
+// Owner of sessions created without an authenticated user
+export const ANONYMOUS_OWNER = 'anonymous';
+
+// Maximum number of requests in a DynamoDB BatchWriteItem call
+export const BATCH_WRITE_LIMIT = 25;
+
+// Attempts at writing the requests of a batch that DynamoDB left unprocessed, with jittered backoff between them
+const BATCH_WRITE_RETRY_POLICY: RetryPolicy = { maxAttempts: 8, baseDelayMs: 50, maxDelayMs: 2000 };
+
+// A put or delete request of a BatchWriteItem call
+export type WriteRequest = NonNullable<BatchWriteCommandOutput['UnprocessedItems']>[string][number];
+
+// Digits of the zero-padded sequence number in message sort keys
+const SEQUENCE_DIGITS = 10;
+const DEFAULT_RETENTION_DAYS = 30;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Key of the session item
+ * @param sessionId - The session ID
+ * @returns Primary key
+ */
+export function sessionKey(sessionId: string): { sessionId: string; sk: string } {
+  return { sessionId, sk: SESSION_SORT_KEY };
+}
+
+/**
+ * Check whether a session belongs to a user
+ * Sessions stored before owners were recorded belong to the anonymous owner.
+ * @param sessionOwner - The owner stored on the session item, if any
+ * @param owner - The user asking for the session
+ * @returns True if the user owns the session
+ */
+export function isSessionOwner(sessionOwner: string | undefined, owner: string): boolean {
+  return (sessionOwner ?? ANONYMOUS_OWNER) === owner;
+}
+
+// Key of an item of the owner index, where a page of sessions ends
+export interface OwnerIndexKey {
+  sessionId: string;
+  sk: string;
+  owner: string;
+  updatedAt: number;
+}
+
+/**
+ * Encode where a page of a user's sessions ends as an opaque cursor
+ * @param key - The last evaluated key of the owner index query
+ * @returns Cursor for the next page
+ */
+export function encodeSessionCursor(key: OwnerIndexKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous page of a user's sessions
+ * @param cursor - The cursor sent by the client
+ * @param owner - The user listing sessions; a cursor of another user's listing is refused
+ * @returns The key to continue the query after, or undefined if the cursor is not valid
+ */
+export function decodeSessionCursor(cursor: string, owner: string): OwnerIndexKey | undefined {
+  let key: Partial<OwnerIndexKey>;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+  if (typeof key?.sessionId !== 'string' || key.sk !== SESSION_SORT_KEY || key.owner !== owner || typeof key.updatedAt !== 'number') {
+    return undefined;
+  }
+  return { sessionId: key.sessionId, sk: key.sk, owner: key.owner, updatedAt: key.updatedAt };
+}
+
+/**
+ * Sort key of a message
+ * @param sequence - Position of the message in the session, starting at 1
+ * @param messageId - The unique message ID
+ * @returns Sort key ordering messages as they were appended
+ */
+export function messageSortKey(sequence: number, messageId: string): string {
+  return `${MESSAGE_SORT_KEY_PREFIX}${String(sequence).padStart(SEQUENCE_DIGITS, '0')}#${messageId}`;
+}
+
+/**
+ * Get the retention period of chat data
+ * @returns Days set by RETENTION_DAYS (default 30); 0 keeps data forever
+ */
+export function getRetentionDays(): number {
+  const days = Number(process.env.RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Compute the `ttl` attribute after which DynamoDB deletes an item
+ * @param now - The time the item is written, in milliseconds
+ * @param retentionDays - How long to keep the item
+ * @returns Expiry in epoch seconds, or undefined if data is kept forever
+ */
+export function expiresAt(now: number, retentionDays: number = getRetentionDays()): number | undefined {
+  return retentionDays > 0 ? Math.floor(now / 1000) + retentionDays * SECONDS_PER_DAY : undefined;
+}
+
+/**
+ * Thrown while DynamoDB leaves requests of a batch unprocessed, e.g. when the table is throttled
+ */
+export class UnprocessedItemsError extends Error {
+  // Makes withRetries try the batch again
+  readonly $retryable = { throttling: true };
+
+  constructor(tableName: string, readonly unprocessed: number) {
+    super(`${unprocessed} writes to ${tableName} were not processed`);
+    this.name = 'UnprocessedItemsError';
+  }
+}
+
+/**
+ * Write a batch of requests, sending the ones DynamoDB did not process again until none are left
+ * @param docClient - The DynamoDB document client
+ * @param tableName - The table to write to
+ * @param requests - Up to BATCH_WRITE_LIMIT put or delete requests
+ * @param policy - Attempts and backoff between them
+ * @throws UnprocessedItemsError if requests are still unprocessed after the last attempt
+ */
+export async function writeBatch(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  requests: WriteRequest[],
+  policy: RetryPolicy = BATCH_WRITE_RETRY_POLICY
+): Promise<void> {
+  let unprocessed = requests;
+  await withRetries(async () => {
+    const response = await docClient.send(new BatchWriteCommand({
+      RequestItems: {
+        [tableName]: unprocessed
+      }
+    }));
+    unprocessed = response.UnprocessedItems?.[tableName] ?? [];
+    if (unprocessed.length > 0) {
+      throw new UnprocessedItemsError(tableName, unprocessed.length);
+    }
+  }, undefined, policy);
+}
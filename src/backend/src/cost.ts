@@ -0,0 +1,43 @@
+import { TokenUsage } from '@aws-sdk/client-bedrock-runtime';
+import { ModelPricing } from './models';
+
+/**
+ * Token usage of a model call and what it cost
+ */
+export interface UsageCost {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Calculate the cost of a model call from its token usage
+ * Cached input tokens are billed at the cache read/write price instead of the input price.
+ * @param pricing - The model's pricing
+ * @param usage - Token usage reported by the Converse API
+ * @returns Token counts and cost in USD
+ */
+export function calculateCost(pricing: ModelPricing, usage?: TokenUsage): UsageCost {
+  const inputTokens = usage?.inputTokens || 0;
+  const outputTokens = usage?.outputTokens || 0;
+  const cacheReadTokens = usage?.cacheReadInputTokens || 0;
+  const cacheWriteTokens = usage?.cacheWriteInputTokens || 0;
+
+  const costUsd = (
+    inputTokens * pricing.inputPerMillionTokens +
+    outputTokens * pricing.outputPerMillionTokens +
+    cacheReadTokens * pricing.cacheReadPerMillionTokens +
+    cacheWriteTokens * pricing.cacheWritePerMillionTokens
+  ) / 1_000_000;
+
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadTokens,
+    cacheWriteTokens,
+    // Round to a millionth of a cent to keep floating point noise out of stored totals
+    costUsd: Math.round(costUsd * 1e8) / 1e8
+  };
+}
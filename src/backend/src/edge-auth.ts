@@ -1,58 +1,97 @@
-import { CloudFrontRequestEvent, CloudFrontRequestHandler } from "aws-lambda";
+import { CloudFrontRequest, CloudFrontRequestEvent, CloudFrontRequestHandler, CloudFrontResultResponse } from "aws-lambda";
 import { createHash } from "crypto";
+import { ApiError } from "./index";
+
+// Largest body CloudFront passes to a viewer request function; larger bodies arrive truncated
+export const MAX_BODY_BYTES = 40 * 1024;
+
+// Headers holding credentials, kept out of the logs
+const CREDENTIAL_HEADERS = ["x-id-token", "authorization"];
+
+// Methods that carry no body, so the function URL needs no payload hash
+const BODYLESS_METHODS = ["GET", "HEAD", "OPTIONS", "DELETE"];
 
 /**
- * Calculate SHA256 hash of a payload string
- * @param payload - The payload to hash
+ * Calculate the SHA256 hash of a payload
+ * @param payload - The payload bytes as sent by the viewer
  * @returns SHA256 hash as a hexadecimal string
  */
-const hashPayload = async (payload: string): Promise<string> => {
-  /*
-  const encoder = new TextEncoder().encode(payload);
-  const hash = await crypto.subtle.digest("SHA-256", encoder);
-  const hashArray = Array.from(new Uint8Array(hash));
-  return hashArray.map((byte) => byte.toString(16).padStart(2, "0")).join("");
-  */
-  return createHash('sha256').update(payload).digest('hex');
+const hashPayload = (payload: Buffer): string => createHash("sha256").update(payload).digest("hex");
+
+/**
+ * Get the bytes of the request body as the viewer sent them
+ * @param request - The CloudFront request
+ * @returns The body, empty if there is none
+ */
+const bodyBytes = (request: CloudFrontRequest): Buffer => {
+  if (!request.body?.data) {
+    return Buffer.alloc(0);
+  }
+  return Buffer.from(request.body.data, request.body.encoding === "text" ? "utf-8" : "base64");
+};
+
+/**
+ * Prepare a request for logging
+ * The body is left out, as it holds the user's prompt; only its size is kept. Credential headers
+ * such as the user's ID token are masked.
+ * @param request - The CloudFront request
+ * @param size - Bytes of the body
+ * @returns JSON of the request without its body
+ */
+const toLogEntry = (request: CloudFrontRequest, size: number): string => {
+  const headers = { ...request.headers };
+  for (const name of CREDENTIAL_HEADERS) {
+    if (headers[name]) {
+      headers[name] = headers[name].map(({ key }) => ({ key, value: "[REDACTED]" }));
+    }
+  }
+  const { body, ...rest } = request;
+  return JSON.stringify({ ...rest, headers, body: body && { inputTruncated: body.inputTruncated, size } });
+};
+
+/**
+ * Build a 413 response for a body the function URL would not accept
+ * @param reason - Why the body was refused
+ * @returns CloudFront response
+ */
+const payloadTooLarge = (reason: string): CloudFrontResultResponse => {
+  const error: ApiError = { error: reason, code: "payload_too_large" };
+  return {
+    status: "413",
+    statusDescription: "Payload Too Large",
+    headers: {
+      "content-type": [{ key: "Content-Type", value: "application/json" }]
+    },
+    body: JSON.stringify(error)
+  };
 };
 
 /**
  * Lambda@Edge handler for CloudFront viewer requests
- * Adds x-amz-content-sha256 header with SHA256 hash of the request body
- * This is required for Lambda function URLs with AWS_IAM auth when accessed through CloudFront
+ * Adds the x-amz-content-sha256 header with the SHA256 hash of the request body, which Lambda function
+ * URLs with AWS_IAM auth require when accessed through CloudFront. A body CloudFront truncated, or one
+ * over MAX_BODY_BYTES, would get a hash that does not match what the function URL receives, so it is
+ * refused with a 413 instead.
  */
 export const handler: CloudFrontRequestHandler = async (
   event: CloudFrontRequestEvent
 ) => {
   const request = event.Records[0].cf.request;
-  console.log("Original request:", JSON.stringify(request));
+  const body = bodyBytes(request);
+  console.log("Viewer request:", toLogEntry(request, body.length));
 
-  // If there's no body, return the request as is
-  if (!request.body?.data) {
-    console.log("No request body found, skipping hash calculation");
-    return request;
+  if (request.body?.inputTruncated || body.length > MAX_BODY_BYTES) {
+    console.log(`Refusing a request body over ${MAX_BODY_BYTES} bytes`);
+    return payloadTooLarge(`The request body exceeds the limit of ${MAX_BODY_BYTES} bytes; send a shorter message`);
   }
 
-  try {
-    // Decode the base64-encoded body
-    const body = request.body.data;
-    const decodedBody = Buffer.from(body, "base64").toString("utf-8");
-    
-    // Calculate SHA256 hash of the body
-    const contentHash = await hashPayload(decodedBody);
-    console.log(`Calculated content hash: ${contentHash}`);
-    
-    // Add the x-amz-content-sha256 header
-    request.headers["x-amz-content-sha256"] = [
-      { key: "x-amz-content-sha256", value: contentHash }
-    ];
-    
-    console.log("Modified request:", JSON.stringify(request));
-    return request;
-  } catch (error) {
-    console.error("Error processing request:", error);
-    // In case of error, return the original request
-    // This allows the request to proceed, though it might fail at the Lambda function URL
+  if (body.length === 0 && BODYLESS_METHODS.includes(request.method)) {
     return request;
   }
+
+  const contentHash = hashPayload(body);
+  request.headers["x-amz-content-sha256"] = [
+    { key: "x-amz-content-sha256", value: contentHash }
+  ];
+  return request;
 };
@@ -0,0 +1,300 @@
+import { GuardrailAssessment } from '@aws-sdk/client-bedrock-runtime';
+
+/**
+ * The guardrail policy a finding comes from
+ */
+export type GuardrailPolicy = 'content' | 'topic' | 'word' | 'sensitive_information' | 'contextual_grounding';
+
+/**
+ * One check of a guardrail policy on the content
+ */
+export interface GuardrailFinding {
+  policy: GuardrailPolicy;
+  // Content filter type, topic name, word list, PII entity type, regex name or grounding check
+  name: string;
+  // What the guardrail did: BLOCKED, ANONYMIZED or NONE
+  action: string;
+  // Whether the check matched, even if its action is NONE
+  detected: boolean;
+  // Content filter confidence as Bedrock reports it: NONE, LOW, MEDIUM or HIGH
+  confidence?: string;
+  // Content filter confidence mapped to a score, or grounding score, between 0 and 1
+  score?: number;
+  // Grounding threshold the score is compared with
+  threshold?: number;
+}
+
+/**
+ * Where a content filter score stands against the thresholds of its category, regardless of Bedrock's own action
+ * - none: below the warn threshold
+ * - warn: at or above the warn threshold
+ * - block: at or above the block threshold; the content is withheld even if Bedrock let it through
+ */
+export type GuardrailLevel = 'none' | 'warn' | 'block';
+
+/**
+ * Scores at which a content filter category warns and blocks; a missing threshold is never reached
+ */
+export interface GuardrailThreshold {
+  warn?: number;
+  block?: number;
+}
+
+/**
+ * Score given to each content filter confidence
+ */
+export type ConfidenceScores = Record<'NONE' | 'LOW' | 'MEDIUM' | 'HIGH', number>;
+
+export interface ContentFilterResult {
+  // Whether Bedrock blocked the content
+  filtered: boolean;
+  score: number;
+  level: GuardrailLevel;
+}
+
+/**
+ * Results of the content filters, by the category names shown to the client
+ */
+export interface ContentFilterResults {
+  harmful: ContentFilterResult;
+  hateful: ContentFilterResult;
+  sexual: ContentFilterResult;
+  toxic: ContentFilterResult;
+  misconduct: ContentFilterResult;
+  promptAttack: ContentFilterResult;
+}
+
+export type ContentFilterCategory = keyof ContentFilterResults;
+
+// Content filter types of Bedrock Guardrails and the category they are reported under
+const CONTENT_FILTER_CATEGORIES: Record<string, ContentFilterCategory> = {
+  VIOLENCE: 'harmful',
+  HATE: 'hateful',
+  SEXUAL: 'sexual',
+  INSULTS: 'toxic',
+  MISCONDUCT: 'misconduct',
+  PROMPT_ATTACK: 'promptAttack'
+};
+
+const BLOCKED = 'BLOCKED';
+
+// Bedrock reports a confidence level, not a probability; these scores only order the levels
+const DEFAULT_CONFIDENCE_SCORES: ConfidenceScores = { NONE: 0, LOW: 0.3, MEDIUM: 0.7, HIGH: 1.0 };
+
+// Warn from MEDIUM confidence on; blocking is left to Bedrock
+const DEFAULT_THRESHOLD: GuardrailThreshold = { warn: 0.5 };
+
+const LEVELS: GuardrailLevel[] = ['none', 'warn', 'block'];
+
+/**
+ * Check whether a value is a score between 0 and 1
+ * @param value - The value
+ * @returns True if the value is a score
+ */
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * Read a JSON object from an environment variable
+ * @param name - The variable name
+ * @returns The object, or an empty one if the variable is unset or not a JSON object
+ */
+function readJsonObject(name: string): Record<string, any> {
+  if (!process.env[name]) {
+    return {};
+  }
+  try {
+    const value: unknown = JSON.parse(process.env[name]!);
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, any>;
+    }
+    console.error(`Ignoring ${name}: not a JSON object`);
+  } catch (error) {
+    console.error(`Error parsing ${name}:`, error);
+  }
+  return {};
+}
+
+/**
+ * Get the score given to each content filter confidence
+ * GUARDRAIL_CONFIDENCE_SCORES is a JSON object overriding some of the defaults, e.g. {"LOW":0.2,"MEDIUM":0.5};
+ * values that are not between 0 and 1 are skipped.
+ * @returns Confidence scores
+ */
+export function getConfidenceScores(): ConfidenceScores {
+  const scores = { ...DEFAULT_CONFIDENCE_SCORES };
+  for (const [confidence, score] of Object.entries(readJsonObject('GUARDRAIL_CONFIDENCE_SCORES'))) {
+    if (confidence in scores && isScore(score)) {
+      scores[confidence as keyof ConfidenceScores] = score;
+    } else {
+      console.error(`Skipping invalid confidence score ${confidence}: ${score}`);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Get the warn and block thresholds of every content filter category
+ * GUARDRAIL_THRESHOLDS is a JSON object keyed by category, or `default` for all of them,
+ * e.g. {"default":{"warn":0.5},"promptAttack":{"warn":0.3,"block":0.7}}; thresholds that are not between 0 and 1 are skipped.
+ * @returns Thresholds by category
+ */
+export function getGuardrailThresholds(): Record<ContentFilterCategory, GuardrailThreshold> {
+  const configured = readJsonObject('GUARDRAIL_THRESHOLDS');
+  const toThreshold = (value: unknown): GuardrailThreshold => {
+    const { warn, block } = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    return { ...(isScore(warn) ? { warn } : {}), ...(isScore(block) ? { block } : {}) };
+  };
+  const defaultThreshold = configured.default ? toThreshold(configured.default) : DEFAULT_THRESHOLD;
+  const thresholds = {} as Record<ContentFilterCategory, GuardrailThreshold>;
+  for (const category of Object.values(CONTENT_FILTER_CATEGORIES)) {
+    thresholds[category] = configured[category] ? toThreshold(configured[category]) : defaultThreshold;
+  }
+  return thresholds;
+}
+
+/**
+ * Grade a score against the thresholds of its category
+ * @param score - The score
+ * @param threshold - The thresholds
+ * @returns Guardrail level
+ */
+export function toGuardrailLevel(score: number, threshold: GuardrailThreshold): GuardrailLevel {
+  if (score > 0 && threshold.block !== undefined && score >= threshold.block) {
+    return 'block';
+  }
+  return score > 0 && threshold.warn !== undefined && score >= threshold.warn ? 'warn' : 'none';
+}
+
+/**
+ * Get the highest of some levels
+ * @param levels - Guardrail levels
+ * @returns The highest level, 'none' if there are none
+ */
+export function maxGuardrailLevel(...levels: GuardrailLevel[]): GuardrailLevel {
+  return levels.reduce((max, level) => LEVELS.indexOf(level) > LEVELS.indexOf(max) ? level : max, 'none');
+}
+
+/**
+ * Create content filter results with nothing detected
+ * @returns Content filter results
+ */
+export function emptyContentFilterResults(): ContentFilterResults {
+  const results = {} as ContentFilterResults;
+  for (const category of Object.values(CONTENT_FILTER_CATEGORIES)) {
+    results[category] = { filtered: false, score: 0, level: 'none' };
+  }
+  return results;
+}
+
+/**
+ * Build a finding
+ * @param policy - The policy the finding comes from
+ * @param name - What was checked
+ * @param action - The action the guardrail took
+ * @param detected - Whether the check matched; without it, any action other than NONE counts as a match
+ * @param extra - Scores and thresholds
+ * @returns Guardrail finding
+ */
+function finding(policy: GuardrailPolicy, name: string | undefined, action: string | undefined, detected: boolean | undefined,
+  extra: Partial<GuardrailFinding> = {}): GuardrailFinding {
+  const resolvedAction = action || 'NONE';
+  return {
+    policy,
+    name: name || 'UNKNOWN',
+    action: resolvedAction,
+    detected: detected ?? resolvedAction !== 'NONE',
+    ...extra
+  };
+}
+
+/**
+ * Read the findings of every policy from the assessments of an ApplyGuardrail response
+ * Matched text is left out, as it may hold the very content (e.g. PII) the policy protects.
+ * @param assessments - The assessments of a full-scope ApplyGuardrail response
+ * @param confidenceScores - Score given to each content filter confidence
+ * @returns Findings of every policy, in the order they were reported
+ */
+export function parseAssessments(assessments: GuardrailAssessment[] = [],
+  confidenceScores: ConfidenceScores = getConfidenceScores()): GuardrailFinding[] {
+  const findings: GuardrailFinding[] = [];
+  for (const assessment of assessments) {
+    for (const filter of assessment.contentPolicy?.filters || []) {
+      const confidence = filter.confidence || 'NONE';
+      findings.push(finding('content', filter.type, filter.action, filter.detected, {
+        confidence,
+        score: confidenceScores[confidence as keyof ConfidenceScores] ?? 0
+      }));
+    }
+    for (const topic of assessment.topicPolicy?.topics || []) {
+      findings.push(finding('topic', topic.name, topic.action, topic.detected));
+    }
+    for (const word of assessment.wordPolicy?.customWords || []) {
+      findings.push(finding('word', 'CUSTOM_WORDS', word.action, word.detected));
+    }
+    for (const word of assessment.wordPolicy?.managedWordLists || []) {
+      findings.push(finding('word', word.type, word.action, word.detected));
+    }
+    for (const entity of assessment.sensitiveInformationPolicy?.piiEntities || []) {
+      findings.push(finding('sensitive_information', entity.type, entity.action, entity.detected));
+    }
+    for (const regex of assessment.sensitiveInformationPolicy?.regexes || []) {
+      findings.push(finding('sensitive_information', regex.name, regex.action, regex.detected));
+    }
+    for (const filter of assessment.contextualGroundingPolicy?.filters || []) {
+      findings.push(finding('contextual_grounding', filter.type, filter.action, filter.detected, {
+        score: filter.score,
+        threshold: filter.threshold
+      }));
+    }
+  }
+  return findings;
+}
+
+/**
+ * Summarize the content filter findings by category, grading each against its thresholds
+ * @param findings - Findings of every policy
+ * @param thresholds - Warn and block thresholds by category
+ * @returns Content filter results
+ */
+export function toContentFilterResults(findings: GuardrailFinding[],
+  thresholds: Record<ContentFilterCategory, GuardrailThreshold> = getGuardrailThresholds()): ContentFilterResults {
+  const results = emptyContentFilterResults();
+  for (const { policy, name, action, score = 0 } of findings) {
+    const category = CONTENT_FILTER_CATEGORIES[name];
+    if (policy === 'content' && category) {
+      results[category] = { filtered: action === BLOCKED, score, level: toGuardrailLevel(score, thresholds[category]) };
+    }
+  }
+  return results;
+}
+
+/**
+ * List the content filter categories at a level
+ * @param results - Content filter results
+ * @param level - The level
+ * @returns Categories at that level
+ */
+export function categoriesAtLevel(results: ContentFilterResults, level: GuardrailLevel): ContentFilterCategory[] {
+  return (Object.keys(results) as ContentFilterCategory[]).filter(category => results[category].level === level);
+}
+
+/**
+ * Check whether a finding blocked the content
+ * @param finding - The finding
+ * @returns True if the content was blocked
+ */
+export function isBlockingFinding(finding: GuardrailFinding): boolean {
+  return finding.action === BLOCKED;
+}
+
+/**
+ * Get the category a finding is counted under in metrics: the content filter category, or else the policy
+ * Topic names, words and regex names are left out to keep the metric dimensions bounded.
+ * @param finding - The finding
+ * @returns Category name
+ */
+export function findingCategory(finding: GuardrailFinding): string {
+  return finding.policy === 'content' ? CONTENT_FILTER_CATEGORIES[finding.name] || finding.name : finding.policy;
+}
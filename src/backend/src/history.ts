@@ -0,0 +1,201 @@
+import { ModelInfo } from './models';
+
+/**
+ * How the stored conversation is fitted into the token budget of a model call
+ * - full: send every turn, whatever its size
+ * - sliding_window: drop the oldest turns
+ * - pin_first: keep the first turn, which usually sets up the task, and drop the oldest turns after it
+ * - summarize: replace the oldest turns with a summary written by a cheaper model
+ */
+export type HistoryStrategy = 'full' | 'sliding_window' | 'pin_first' | 'summarize';
+
+/**
+ * The part of a chat message the history strategies look at
+ */
+export interface HistoryMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+/**
+ * Summary of the oldest turns of a session, cached on the session item
+ */
+export interface ConversationSummary {
+  text: string;
+  // The last message the summary covers
+  throughMessageId: string;
+}
+
+/**
+ * The history to send to the model
+ */
+export interface HistoryPlan<T extends HistoryMessage> {
+  // Messages sent as they are, oldest first
+  messages: T[];
+  // The cached summary still in use, if any
+  summary?: ConversationSummary;
+  // Messages to fold into the summary before the call, and how many turns they make up
+  toSummarize: T[];
+  turnsToSummarize: number;
+  turnsDropped: number;
+  // Turns covered by the cached summary
+  turnsSummarized: number;
+  // Estimated tokens of the messages, without the summary
+  estimatedTokens: number;
+}
+
+const HISTORY_STRATEGIES: HistoryStrategy[] = ['full', 'sliding_window', 'pin_first', 'summarize'];
+
+// Rough number of characters per token, as no tokenizer is available for every model
+const CHARS_PER_TOKEN = 4;
+// Tokens each message adds for its role and framing
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Share of the context window history may use; the rest absorbs estimation errors
+const CONTEXT_WINDOW_SHARE = 0.75;
+// Models with a context window below these sizes fall back to simpler strategies
+const PIN_FIRST_CONTEXT_WINDOW = 32000;
+const SUMMARIZE_CONTEXT_WINDOW = 128000;
+// Longest summary the summary model may write
+export const SUMMARY_MAX_TOKENS = 500;
+const DEFAULT_SUMMARY_MODEL_ID = 'us.amazon.nova-lite-v1:0';
+
+/**
+ * Estimate the number of tokens of a text
+ * @param text - The text
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the number of tokens messages take up in a request
+ * @param messages - The messages
+ * @returns Estimated token count
+ */
+function estimateMessageTokens(messages: HistoryMessage[]): number {
+  return messages.reduce((total, msg) => total + estimateTokens(msg.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Choose the history strategy for a model
+ * HISTORY_STRATEGY forces one strategy for every model; by default ('auto') it follows the context window:
+ * small windows use a sliding window, mid-sized ones also pin the first turn and large ones,
+ * which have room for a summary next to the recent turns, summarize the oldest turns.
+ * @param model - The model from the catalog
+ * @returns History strategy
+ */
+export function selectHistoryStrategy(model: ModelInfo): HistoryStrategy {
+  const strategy = process.env.HISTORY_STRATEGY as HistoryStrategy;
+  if (HISTORY_STRATEGIES.includes(strategy)) {
+    return strategy;
+  }
+  if (model.contextWindow < PIN_FIRST_CONTEXT_WINDOW) {
+    return 'sliding_window';
+  }
+  return model.contextWindow < SUMMARIZE_CONTEXT_WINDOW ? 'pin_first' : 'summarize';
+}
+
+/**
+ * Compute how many tokens of history a model call may send
+ * The budget is a share of the context window, less the reply and the system prompt,
+ * and is capped by HISTORY_TOKEN_BUDGET when that is set to a positive number to limit cost.
+ * @param model - The model from the catalog
+ * @param maxOutputTokens - Tokens reserved for the reply
+ * @param systemText - The system prompt
+ * @returns Token budget for the conversation
+ */
+export function getHistoryTokenBudget(model: ModelInfo, maxOutputTokens: number, systemText: string = ''): number {
+  const available = Math.floor(model.contextWindow * CONTEXT_WINDOW_SHARE) - maxOutputTokens - estimateTokens(systemText);
+  const cap = Number(process.env.HISTORY_TOKEN_BUDGET || 0);
+  return Math.max(0, Number.isFinite(cap) && cap > 0 ? Math.min(available, cap) : available);
+}
+
+/**
+ * Get the model that summarizes older turns
+ * @returns The model ID set by SUMMARY_MODEL_ID, Amazon Nova Lite by default
+ */
+export function getSummaryModelId(): string {
+  return process.env.SUMMARY_MODEL_ID || DEFAULT_SUMMARY_MODEL_ID;
+}
+
+/**
+ * Split messages into turns: a user message with the replies that follow it
+ * Consecutive user messages (a user message whose reply failed) stay in the same turn.
+ * @param messages - The messages, oldest first
+ * @returns Turns, oldest first
+ */
+function splitTurns<T extends HistoryMessage>(messages: T[]): T[][] {
+  const turns: T[][] = [];
+  for (const msg of messages) {
+    const current = turns[turns.length - 1];
+    const previous = current?.[current.length - 1];
+    if (!current || (msg.role === 'user' && previous.role !== 'user')) {
+      turns.push([msg]);
+    } else {
+      current.push(msg);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Fit a conversation into a token budget
+ * The last turn, which holds the new user message, is always kept, and turns are only dropped whole
+ * so the conversation still starts with a user message. With the summarize strategy, turns covered by
+ * the cached summary are left out and further turns to drop are returned to be added to the summary.
+ * @param messages - The conversation, oldest first, ending with the new user message
+ * @param strategy - The history strategy
+ * @param budget - Token budget for the conversation
+ * @param summary - The cached summary of the session, if any
+ * @returns The history to send
+ */
+export function planHistory<T extends HistoryMessage>(
+  messages: T[],
+  strategy: HistoryStrategy,
+  budget: number,
+  summary?: ConversationSummary
+): HistoryPlan<T> {
+  let turns = splitTurns(messages.filter(msg => msg.role !== 'system'));
+  const systemMessages = messages.filter(msg => msg.role === 'system');
+  let summarizedTurns = 0;
+  let usedSummary: ConversationSummary | undefined;
+  let limit = budget;
+
+  if (strategy === 'summarize') {
+    // The cache is only usable while the message it ends with is still stored
+    const covered = summary
+      ? turns.findIndex(turn => turn.some(msg => msg.id === summary.throughMessageId))
+      : -1;
+    if (summary && covered >= 0 && covered < turns.length - 1) {
+      usedSummary = summary;
+      summarizedTurns = covered + 1;
+      turns = turns.slice(covered + 1);
+    }
+    limit -= SUMMARY_MAX_TOKENS;
+  }
+
+  const pinned = strategy === 'pin_first' && turns.length > 1 ? turns.slice(0, 1) : [];
+  let rest = turns.slice(pinned.length);
+  let total = estimateMessageTokens([...pinned, ...rest].flat());
+  const dropped: T[][] = [];
+  if (strategy !== 'full') {
+    while (rest.length > 1 && total > limit) {
+      total -= estimateMessageTokens(rest[0]);
+      dropped.push(rest[0]);
+      rest = rest.slice(1);
+    }
+  }
+
+  const summarize = strategy === 'summarize';
+  return {
+    messages: [...systemMessages, ...[...pinned, ...rest].flat()],
+    summary: usedSummary,
+    toSummarize: summarize ? dropped.flat() : [],
+    turnsToSummarize: summarize ? dropped.length : 0,
+    turnsDropped: summarize ? 0 : dropped.length,
+    turnsSummarized: summarizedTurns,
+    estimatedTokens: total
+  };
+}
@@ -1,12 +1,20 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  QueryCommandOutput,
+  UpdateCommand,
+  TransactWriteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
 import { 
-  BedrockRuntimeClient, 
-  ConverseCommand,
-  ApplyGuardrailCommand,
-  GuardrailContentPolicyAction,
-  GuardrailContentFilterConfidence,
   ConversationRole,
+  GuardrailAction,
+  GuardrailOutputContent,
+  Message,
+  ConverseStreamOutput,
+  SystemContentBlock,
+  TokenUsage,
   AccessDeniedException,
   ResourceNotFoundException,
   ServiceQuotaExceededException,
@@ -14,49 +22,310 @@ import {
   InternalServerException
 } from '@aws-sdk/client-bedrock-runtime';
 import { randomUUID } from 'crypto';
+import { Writable } from 'stream';
 import * as api from '@opentelemetry/api';
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+import { getModelProvider } from './providers';
+import {
+  ContentFilterCategory,
+  ContentFilterResults,
+  GuardrailFinding,
+  GuardrailLevel,
+  categoriesAtLevel,
+  emptyContentFilterResults,
+  findingCategory,
+  isBlockingFinding,
+  maxGuardrailLevel,
+  parseAssessments,
+  toContentFilterResults
+} from './guardrails';
+import { getPromptTemplate, PromptTemplate } from './prompts';
+import { resolveInferenceConfig, InferenceConfig } from './inference';
+import { getModel, getFallbackChain, listModels, ModelInfo } from './models';
+import { calculateCost, UsageCost } from './cost';
+import { captureContent } from './redaction';
+import {
+  ConversationSummary,
+  HistoryStrategy,
+  SUMMARY_MAX_TOKENS,
+  selectHistoryStrategy,
+  getHistoryTokenBudget,
+  getSummaryModelId,
+  estimateTokens,
+  planHistory
+} from './history';
+import { AttemptContext, callWithFallback, classifyFailure, withRetries } from './resilience';
+import { AuthError, AuthenticatedUser, authenticate, getAuthConfig, toOwner } from './auth';
+import { QuotaExceeded, QuotaSubject, checkQuotas, consumeTokens, quotaSubjects } from './quota';
+import { ChatRequest, ValidationIssue, parseChatRequest } from './validation';
+import { Route, corsHeaders, findRoute, preflight, preflightHeaders } from './router';
+import {
+  ANONYMOUS_OWNER,
+  BATCH_WRITE_LIMIT,
+  SESSION_SORT_KEY,
+  OWNER_INDEX_NAME,
+  OwnerIndexKey,
+  decodeSessionCursor,
+  encodeSessionCursor,
+  isSessionOwner,
+  sessionKey,
+  messageSortKey,
+  expiresAt,
+  writeBatch
+} from './chat-table';
+import {
+  TRACE_NAME,
+  RequestOutcome,
+  recordRequest,
+  recordModelUsage,
+  recordModelError,
+  recordGuardrailBlocks,
+  recordGuardrailError,
+  recordQuotaExceeded,
+  setLegacyAttribute,
+  startGenAiSpan,
+  timeStage,
+  addPromptEvents,
+  addCompletionEvent,
+  withRequestContext
+} from './telemetry';
 
 // Initialize clients
 const dynamoClient = new DynamoDBClient();
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
-const bedrockClient = new BedrockRuntimeClient();
 
 // Environment variables
 const TABLE_NAME = process.env.TABLE_NAME || '';
 const GUARDRAIL_ID = process.env.GUARDRAIL_ID || '';
 const GUARDRAIL_VERSION = process.env.GUARDRAIL_VERSION || 'DRAFT';
-
-// Define Trace name
-const TRACE_NAME = 'llm-observability-backend';
+// Number of streamed characters to buffer before running output guardrails on them
+const STREAM_GUARDRAIL_WINDOW = parseInt(process.env.STREAM_GUARDRAIL_WINDOW || '400', 10);
+// Characters of the previous window to re-check, so a phrase split across windows is still caught
+const STREAM_GUARDRAIL_OVERLAP = 100;
+// Characters of the first user message kept as the session title
+const SESSION_TITLE_LENGTH = 60;
+// Most sessions listed per page
+const SESSION_PAGE_SIZE = 50;
+// Attempts to append an assistant reply when other requests keep changing the session
+const APPEND_REPLY_ATTEMPTS = 3;
+// Response streaming helpers are only provided by the Lambda Node.js runtime
+const HAS_STREAMING_RUNTIME = typeof awslambda !== 'undefined' && typeof awslambda.streamifyResponse === 'function';
 
 // Define interfaces for our application
-interface ContentFilterResult {
-  filtered: boolean;
-  score: number;
-}
-
-interface ContentFilterResults {
-  harmful: ContentFilterResult;
-  hateful: ContentFilterResult;
-  sexual: ContentFilterResult;
-  toxic: ContentFilterResult;
-}
-
 interface GuardrailsResult {
   contentFilterResults: ContentFilterResults;
+  // Findings of every guardrail policy, of which the content filters are one
+  findings: GuardrailFinding[];
+  // GUARDRAIL_INTERVENED when the guardrail blocked or masked the content, with the text to use instead in outputs
+  action?: GuardrailAction;
+  outputs?: GuardrailOutputContent[];
+  // Set when the guardrail could not evaluate the content
   error?: string;
+  errorType?: string;
   [key: string]: any; // Allow for additional properties from the AWS response
 }
 
+// Whether the guardrail evaluated the content and found nothing, blocked it, or could not evaluate it
+type GuardrailStatus = 'clean' | 'filtered' | 'error';
+
+// What happens to content the guardrail could not evaluate: let through ('open') or blocked ('closed')
+type GuardrailFailureMode = 'open' | 'closed';
+
 interface ChatMessage {
+  // Unique ID of the message, assigned by the server
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
   sessionId?: string;
+  // The user whose turn the message belongs to, set when it is stored
+  userId?: string;
+  modelId?: string;
+  usage?: UsageCost;
+}
+
+// A message as stored in the chat table
+interface StoredMessage extends ChatMessage {
+  // The text the model is sent as history, kept apart from the content capture policy
+  modelContent?: string;
+}
+
+interface SystemPrompt {
+  template?: PromptTemplate;
+  text?: string;
+}
+
+// How the stored conversation was fitted into the token budget of a model call
+interface HistoryStats {
+  strategy: HistoryStrategy;
+  tokenBudget: number;
+  estimatedTokens: number;
+  turnsDropped: number;
+  turnsSummarized: number;
+  // Summary of the turns left out, sent with the system prompt
+  summary?: string;
+}
+
+interface ModelRequest {
+  model: ModelInfo;
+  messages: ChatMessage[];
+  systemPrompt: SystemPrompt;
+  inferenceConfig: InferenceConfig;
+  history?: HistoryStats;
+  // Cancels the call, e.g. a speculative call whose user message turned out to be blocked
+  abortSignal?: AbortSignal;
+}
+
+interface ChatOptions {
+  model: ModelInfo;
+  systemPrompt: SystemPrompt;
+  inferenceConfig: InferenceConfig;
+}
+
+// Function URLs send payload format 2.0 events; format 1.0 is accepted for API Gateway and tests
+type HttpEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2;
+
+// What the handler of a route is given
+interface RouteContext {
+  event: HttpEvent;
+  // The span representing the request
+  span: api.Span;
+  // The user sending the request, or the anonymous owner on public routes
+  owner: string;
+}
+
+interface GuardrailsScores {
+  harmful: number;
+  hateful: number;
+  sexual: number;
+  toxic: number;
+  misconduct: number;
+  promptAttack: number;
+}
+
+interface ModelResponse {
+  content: string;
+  usage: UsageCost;
+  // The model that answered, which is a fallback model if the requested one failed
+  model: ModelInfo;
+}
+
+// A model call started before the input guardrail finished, and the means to cancel it
+interface SpeculativeCall {
+  response: Promise<ModelResponse>;
+  abortController: AbortController;
+}
+
+// A ConverseStream call opened on one model, with the events read before the first text delta
+interface ModelStream {
+  model: ModelInfo;
+  span: api.Span;
+  startTime: number;
+  abortController: AbortController;
+  buffered: ConverseStreamOutput[];
+  events: AsyncIterator<ConverseStreamOutput>;
+}
+
+interface ModelStreamCallbacks {
+  onModel?: (model: ModelInfo) => void;
+  onUsage?: (usage: UsageCost) => void;
+}
+
+interface ChatCost {
+  inputTokens: number;
+  outputTokens: number;
+  requestUsd: number;
+  sessionUsd?: number;
+}
+
+interface ChatResponse {
+  message: ChatMessage;
+  sessionId: string;
+  guardrailsScores: GuardrailsScores;
+  guardrailStatus: GuardrailStatus;
+  // Findings that blocked or changed content, so the client can tell which policy fired
+  guardrailFindings: GuardrailFinding[];
+  // Highest level any content filter category reached against its thresholds, and the level of each category
+  guardrailLevel: GuardrailLevel;
+  guardrailLevels: Record<ContentFilterCategory, GuardrailLevel>;
+  cost?: ChatCost;
+}
+
+// The stored messages of a session, the version to expect when appending to it and the cached summary of its oldest turns
+interface Conversation {
+  messages: ChatMessage[];
+  version: number;
+  summary?: ConversationSummary;
+  // The user the session belongs to, unless nothing is stored yet
+  owner?: string;
+}
+
+interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  costUsd?: number;
+}
+
+// A page of a user's sessions
+interface ChatSessionPage {
+  sessions: ChatSessionSummary[];
+  // Cursor of the next page, absent on the last page
+  nextCursor?: string;
+}
+
+interface ChatSession {
+  id: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse; cutOff: boolean }
+  | ({ type: 'error'; message: string } & ApiError);
+
+// Stable codes of error responses, so clients need not match on the messages
+export type ApiErrorCode =
+  | 'validation'
+  | 'model_not_allowed'
+  | 'guardrail_blocked'
+  | 'throttled'
+  | 'upstream_error'
+  | 'unauthorized'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'internal_error';
+
+// Body of every error response and stream error event, kept identical to ApiError in src/shared/types.ts
+export interface ApiError {
+  error: string;
+  code: ApiErrorCode;
+  // Fields of a request that failed validation
+  details?: ValidationIssue[];
+  sessionId?: string;
+  // The quota a throttled request went over
+  quota?: QuotaExceeded;
 }
 
+// Replies shown to the user when guardrails filter the conversation
+const INPUT_FILTERED_MESSAGE = 'Your message was filtered by content safety guardrails.';
+const OUTPUT_FILTERED_MESSAGE = "I'm sorry, but I cannot provide a response to that query as it may contain inappropriate content.";
+const INPUT_UNCHECKED_MESSAGE = 'Your message could not be checked by content safety guardrails. Please try again later.';
+const OUTPUT_UNCHECKED_MESSAGE = "I'm sorry, but the response could not be checked by content safety guardrails. Please try again later.";
+const CONFLICT_MESSAGE = 'The conversation was changed by another request; reload it and try again';
+const AUTH_UNAVAILABLE_ERROR = 'Sign-in could not be verified; please try again';
+const MODEL_UNAVAILABLE_ERROR = 'The model is temporarily unavailable; please try again';
+const INTERNAL_ERROR = 'An error occurred while processing your request';
+const SUMMARY_INSTRUCTIONS = 'Summarize the conversation below for an assistant that will continue it. '
+  + 'Keep facts, names, numbers, decisions, open questions and the user\'s stated preferences. '
+  + 'Write plain prose and reply with the summary only.';
+
 /**
  * Apply guardrails to content
  * @param content - The content to check
@@ -65,8 +334,8 @@ interface ChatMessage {
  */
 export async function applyGuardrails(content: string, source: 'INPUT' | 'OUTPUT' = 'INPUT'): Promise<GuardrailsResult> {
   try {
-    // Create the command with proper typing for the content parameter
-    const command = new ApplyGuardrailCommand({
+    // Transient failures (e.g. throttling) are retried with backoff before giving up
+    const response = await withRetries(() => getModelProvider().applyGuardrail({
       guardrailIdentifier: GUARDRAIL_ID,
       guardrailVersion: GUARDRAIL_VERSION,
       content: [{ 
@@ -76,76 +345,16 @@ export async function applyGuardrails(content: string, source: 'INPUT' | 'OUTPUT
       }],
       source: source,
       outputScope: 'FULL' // Get full output for enhanced debugging
-    });
+    }));
     
-    const response = await bedrockClient.send(command);
-    
-    // Process the response to extract content filter scores
-    // Map to the expected structure in our application
-    const contentFilterResults: ContentFilterResults = {
-      harmful: { filtered: false, score: 0 },
-      hateful: { filtered: false, score: 0 },
-      sexual: { filtered: false, score: 0 },
-      toxic: { filtered: false, score: 0 }
-    };
-    
-    // Function to convert GuardrailContentFilterConfidence to number (Value is HIGH, MEDIUM, LOW, NONE)
-    const convertConfidenceToNumber = (confidence?: GuardrailContentFilterConfidence): number => {
-      if (!confidence) {
-        return 0.0;
-      }
-      switch (confidence) {
-        case GuardrailContentFilterConfidence.HIGH:
-          return 1.0;
-        case GuardrailContentFilterConfidence.MEDIUM:
-          return 0.7;
-        case GuardrailContentFilterConfidence.LOW:
-          return 0.3;
-        case GuardrailContentFilterConfidence.NONE:
-          return 0.0;
-        default:
-          return 0.0; // Default to 0 if unknown confidence level
-      }
-    };
-
-    // Extract scores from the assessments array if it exists
-    if (response.assessments && response.assessments.length > 0) {
-      const assessment = response.assessments[0];
-      
-      // Process content policy filters
-      if (assessment.contentPolicy && assessment.contentPolicy.filters) {
-        assessment.contentPolicy.filters.forEach(filter => {
-          // Map filter types to our application's expected structure
-          // HATE -> hateful, SEXUAL -> sexual, VIOLENCE -> harmful
-          if (filter.type === 'HATE') {
-            contentFilterResults.hateful = {
-              filtered: filter.action === GuardrailContentPolicyAction.BLOCKED,
-              score: convertConfidenceToNumber(filter.confidence)
-            };
-          } else if (filter.type === 'SEXUAL') {
-            contentFilterResults.sexual = {
-              filtered: filter.action === GuardrailContentPolicyAction.BLOCKED,
-              score: convertConfidenceToNumber(filter.confidence)
-            };
-          } else if (filter.type === 'VIOLENCE') {
-            contentFilterResults.harmful = {
-              filtered: filter.action === GuardrailContentPolicyAction.BLOCKED,
-              score: convertConfidenceToNumber(filter.confidence)
-            };
-          } else if (filter.type === 'INSULTS') {
-            contentFilterResults.toxic = {
-              filtered: filter.action === GuardrailContentPolicyAction.BLOCKED,
-              score: convertConfidenceToNumber(filter.confidence)
-            };
-          }
-        });
-      }
-    }
+    // Read the findings of every policy: content filters, denied topics, words, sensitive information and grounding
+    const findings = parseAssessments(response.assessments);
     
     // Return the processed response with our application's expected structure
     return {
       ...response,
-      contentFilterResults
+      findings,
+      contentFilterResults: toContentFilterResults(findings)
     };
   } catch (error) {
     console.error('Error applying guardrails:', error);
@@ -164,276 +373,1646 @@ export async function applyGuardrails(content: string, source: 'INPUT' | 'OUTPUT
       console.error('ServiceQuotaExceededException: Consider requesting a quota increase');
     } else if (error instanceof ThrottlingException) {
       errorMessage = 'Request throttled: Too many requests in a short period';
-      console.error('ThrottlingException: Implement retry logic with exponential backoff');
+      console.error('ThrottlingException: Still throttled after retrying with backoff');
     } else if (error instanceof InternalServerException) {
       errorMessage = 'Internal server error: An issue occurred on the AWS side';
       console.error('InternalServerException: This is an AWS internal issue, not client-side');
     }
     
-    // Return a default response if guardrails fail
+    // Return a default response if guardrails fail; the failure mode decides whether the content goes through
     return {
       error: errorMessage,
-      contentFilterResults: {
-        harmful: { filtered: false, score: 0 },
-        hateful: { filtered: false, score: 0 },
-        sexual: { filtered: false, score: 0 },
-        toxic: { filtered: false, score: 0 }
-      }
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      findings: [],
+      contentFilterResults: emptyContentFilterResults()
     };
   }
 }
 
 /**
- * Invoke Bedrock model using the Converse API
- * @param modelId - The model ID to use
+ * Convert our application's message format to the Converse API format
+ * System messages are left out; they are sent through the `system` field instead.
+ * Consecutive messages of the same role (e.g. a user message whose reply failed) are merged,
+ * as the Converse API expects the roles to alternate.
+ * @param messages - The chat messages
+ * @returns Messages for the Converse API
+ */
+function toConverseMessages(messages: ChatMessage[]): Message[] {
+  const converseMessages: Message[] = [];
+  for (const msg of messages.filter(msg => msg.role !== 'system')) {
+    const role = msg.role === 'user' ? ConversationRole.USER : ConversationRole.ASSISTANT;
+    const previous = converseMessages[converseMessages.length - 1];
+    if (previous?.role === role) {
+      previous.content!.push({ text: msg.content });
+    } else {
+      converseMessages.push({ role, content: [{ text: msg.content }] });
+    }
+  }
+  return converseMessages;
+}
+
+/**
+ * Build the Converse API `system` field from the prompt template, the custom system prompt,
+ * any system messages in the conversation and the summary of earlier turns, in that order
  * @param messages - The chat messages
- * @returns Model response
+ * @param systemPrompt - The resolved system prompt
+ * @param summary - Summary of the turns left out of the conversation
+ * @returns System content blocks, or undefined if there is no system prompt
+ */
+function toSystemBlocks(messages: ChatMessage[], systemPrompt: SystemPrompt, summary?: string): SystemContentBlock[] | undefined {
+  const texts = [
+    systemPrompt.template?.text,
+    systemPrompt.text,
+    ...messages.filter(msg => msg.role === 'system').map(msg => msg.content),
+    summary && `Summary of the earlier conversation:\n${summary}`
+  ].filter((text): text is string => !!text);
+  return texts.length > 0 ? texts.map(text => ({ text })) : undefined;
+}
+
+/**
+ * Record the model, the system prompt and the effective inference settings on a span
+ * @param span - The span to annotate
+ * @param request - The model request
+ */
+function setRequestAttributes(span: api.Span, request: ModelRequest): void {
+  const { model, systemPrompt, inferenceConfig, history } = request;
+  setLegacyAttribute(span, 'llm.model_id', model.id);
+  if (systemPrompt.template) {
+    span.setAttribute('gen_ai.prompt.name', systemPrompt.template.id);
+    setLegacyAttribute(span, 'llm.prompt_template.id', systemPrompt.template.id);
+    span.setAttribute('llm.prompt_template.version', systemPrompt.template.version);
+  }
+  span.setAttribute('llm.system_prompt.custom', !!systemPrompt.text);
+  span.setAttribute('gen_ai.request.max_tokens', inferenceConfig.maxTokens);
+  span.setAttribute('gen_ai.request.temperature', inferenceConfig.temperature);
+  span.setAttribute('gen_ai.request.top_p', inferenceConfig.topP);
+  if (inferenceConfig.stopSequences) {
+    span.setAttribute('gen_ai.request.stop_sequences', inferenceConfig.stopSequences);
+  }
+  if (history) {
+    span.setAttribute('llm.history.strategy', history.strategy);
+    span.setAttribute('llm.history.token_budget', history.tokenBudget);
+    span.setAttribute('llm.history.estimated_tokens', history.estimatedTokens);
+    span.setAttribute('llm.history.turns_dropped', history.turnsDropped);
+    span.setAttribute('llm.history.turns_summarized', history.turnsSummarized);
+  }
+}
+
+/**
+ * Record the response model, token usage and its cost on a span
+ * @param span - The span to annotate
+ * @param model - The model that was called
+ * @param usage - Token usage reported by the Converse API
+ * @returns Token counts and cost in USD
+ */
+function recordUsage(span: api.Span, model: ModelInfo, usage?: TokenUsage): UsageCost {
+  const usageCost = calculateCost(model.pricing, usage);
+  // Bedrock answers with the requested model, the Converse API does not report it separately
+  span.setAttribute('gen_ai.response.model', model.id);
+  span.setAttribute('gen_ai.usage.input_tokens', usageCost.inputTokens);
+  span.setAttribute('gen_ai.usage.output_tokens', usageCost.outputTokens);
+  span.setAttribute('gen_ai.usage.cache_read.input_tokens', usageCost.cacheReadTokens);
+  span.setAttribute('gen_ai.usage.cache_creation.input_tokens', usageCost.cacheWriteTokens);
+  setLegacyAttribute(span, 'llm.input_tokens', usageCost.inputTokens);
+  setLegacyAttribute(span, 'llm.output_tokens', usageCost.outputTokens);
+  setLegacyAttribute(span, 'llm.total_tokens', usage?.totalTokens || 0);
+  setLegacyAttribute(span, 'llm.cache_read', usageCost.cacheReadTokens);
+  setLegacyAttribute(span, 'llm.cache_write', usageCost.cacheWriteTokens);
+  // No GenAI convention covers cost, so it keeps its llm.* name
+  span.setAttribute('llm.cost_usd', usageCost.costUsd);
+  recordModelUsage(model.id, usageCost);
+  return usageCost;
+}
+
+/**
+ * Record why the model stopped generating on a span
+ * @param span - The span to annotate
+ * @param stopReason - The stop reason reported by the Converse API
+ */
+function recordFinishReason(span: api.Span, stopReason?: string): void {
+  if (stopReason) {
+    span.setAttribute('gen_ai.response.finish_reasons', [stopReason]);
+  }
+  setLegacyAttribute(span, 'llm.stop_reason', stopReason || '');
+}
+
+/**
+ * Record the system instructions and conversation sent to the model as span events
+ * @param span - The span to annotate
+ * @param system - The system content blocks of the request
+ * @param messages - The conversation history
+ */
+function recordPrompt(span: api.Span, system: SystemContentBlock[] | undefined, messages: ChatMessage[]): void {
+  addPromptEvents(
+    span,
+    (system || []).map(block => block.text || ''),
+    messages.filter(msg => msg.role !== 'system')
+  );
+}
+
+/**
+ * Resolve the system prompt requested by the client
+ * @param body - The parsed request body
+ * @returns The system prompt, or an error message if the template does not exist
+ */
+function resolveSystemPrompt(body: { promptTemplateId?: string; systemPrompt?: string }): SystemPrompt | { error: string } {
+  const systemPrompt: SystemPrompt = { text: body.systemPrompt || undefined };
+  if (body.promptTemplateId) {
+    systemPrompt.template = getPromptTemplate(body.promptTemplateId);
+    if (!systemPrompt.template) {
+      return { error: `Unknown prompt template: ${body.promptTemplateId}` };
+    }
+  }
+  return systemPrompt;
+}
+
+/**
+ * Resolve the model, system prompt and inference settings requested by the client
+ * @param body - The validated request body
+ * @param streaming - Whether the response is streamed
+ * @returns The chat options, or an error message and code if any of them is invalid
+ */
+function resolveChatOptions(body: ChatRequest, streaming: boolean = false): ChatOptions | { error: string; code: ApiErrorCode } {
+  const model = getModel(body.modelId);
+  if (!model) {
+    return { error: `Model not allowed: ${body.modelId}`, code: 'model_not_allowed' };
+  }
+  if (streaming && !model.capabilities.streaming) {
+    return { error: `${model.name} does not support streaming`, code: 'validation' };
+  }
+  const systemPrompt = resolveSystemPrompt(body);
+  if ('error' in systemPrompt) {
+    return { ...systemPrompt, code: 'validation' };
+  }
+  if (!model.capabilities.systemPrompt && (systemPrompt.template || systemPrompt.text)) {
+    return { error: `${model.name} does not support system prompts`, code: 'validation' };
+  }
+  const inferenceConfig = resolveInferenceConfig(model, body.inferenceConfig);
+  if ('error' in inferenceConfig) {
+    return { ...inferenceConfig, code: 'validation' };
+  }
+  return { model, systemPrompt, inferenceConfig };
+}
+
+/**
+ * Adapt a model request to another model of the fallback chain
+ * Inference settings are clamped to that model's limits.
+ * @param request - The model request
+ * @param model - The model to send it to
+ * @returns The model request for that model
+ */
+function forModel(request: ModelRequest, model: ModelInfo): ModelRequest {
+  if (model.id === request.model.id) {
+    return request;
+  }
+  const { inferenceConfig } = request;
+  return {
+    ...request,
+    model,
+    inferenceConfig: {
+      ...inferenceConfig,
+      maxTokens: Math.min(inferenceConfig.maxTokens, model.limits.maxOutputTokens),
+      temperature: Math.min(inferenceConfig.temperature, model.limits.maxTemperature),
+      stopSequences: inferenceConfig.stopSequences?.slice(0, model.limits.maxStopSequences)
+    }
+  };
+}
+
+/**
+ * Get the models a request may be sent to: the requested model and those of its fallbacks that support the request
+ * @param request - The model request
+ * @param streaming - Whether the response is streamed
+ * @returns The fallback chain
+ */
+function getRequestFallbackChain(request: ModelRequest, streaming: boolean): ModelInfo[] {
+  const { systemPrompt } = request;
+  const needsSystemPrompt = !!(systemPrompt.template || systemPrompt.text || request.history?.summary);
+  // The requested model's support for system prompts was checked with the request
+  return getFallbackChain(request.model).filter((model, index) =>
+    (index === 0 || !needsSystemPrompt || model.capabilities.systemPrompt) && (!streaming || model.capabilities.streaming)
+  );
+}
+
+/**
+ * Record where a model call stands in the retry and fallback sequence on its span
+ * @param span - The model span
+ * @param context - The attempt context
+ */
+function setAttemptAttributes(span: api.Span, context: AttemptContext): void {
+  span.setAttribute('llm.attempt', context.attempt);
+  if (context.fallbackIndex > 0) {
+    span.setAttribute('llm.fallback.index', context.fallbackIndex);
+    span.setAttribute('llm.fallback.from', context.requestedModelId);
+  }
+}
+
+/**
+ * Record a failed model call on its span and in the error metric
+ * @param span - The model span
+ * @param model - The model called
+ * @param error - The error
+ */
+function recordModelFailure(span: api.Span, model: ModelInfo, error: unknown): void {
+  recordModelError(model.id, error);
+  span.setAttribute('error.type', (error as Error).name);
+  span.recordException(error as Error);
+  span.setStatus({ code: api.SpanStatusCode.ERROR, message: (error as Error).message });
+}
+
+/**
+ * Invoke Bedrock model using the Converse API
+ * Transient failures are retried with backoff, then the model's fallbacks are tried in order;
+ * every attempt gets its own span.
+ * @param request - The model, conversation, system prompt and inference settings
+ * @returns Model response with its token usage and cost, and the model that answered
+ */
+async function invokeModel(request: ModelRequest): Promise<ModelResponse> {
+  return callWithFallback(getRequestFallbackChain(request, false), (model, context) =>
+    invokeModelOnce(forModel(request, model), context));
+}
+
+/**
+ * Make one Converse API call
+ * @param request - The model, conversation, system prompt and inference settings
+ * @param context - Where the call stands in the retry and fallback sequence
+ * @returns Model response with its token usage and cost
  */
-async function invokeModel(modelId: string, messages: ChatMessage[]): Promise<string> {
+async function invokeModelOnce(request: ModelRequest, context: AttemptContext): Promise<ModelResponse> {
+  const { model, messages, systemPrompt, inferenceConfig } = request;
+  
   // Create a span for model invocation
-  const tracer = api.trace.getTracer(TRACE_NAME);
-  const span = tracer.startSpan(`Bedrock.converse.${modelId}`);
+  const span = startGenAiSpan('chat', model.id);
+  const system = toSystemBlocks(messages, systemPrompt, request.history?.summary);
   
   // Add attributes to the span
-  span.setAttribute('llm.model_id', modelId);
+  setRequestAttributes(span, request);
+  setAttemptAttributes(span, context);
+  recordPrompt(span, system, messages);
   
   try {
-    // Convert our application's message format to the Converse API format
-    const converseMessages = messages.map(msg => {
-      // Map our application roles to ConversationRole enum
-      // Note: ConversationRole only has USER and ASSISTANT, no SYSTEM
-      let role: ConversationRole;
-      if (msg.role === 'user') {
-        role = ConversationRole.USER;
-      } else {
-        // Default to ASSISTANT for both 'assistant' and 'system' roles
-        // System messages will be treated as assistant messages in the Converse API
-        role = ConversationRole.ASSISTANT;
-      }
-      
-      return {
-        role,
-        content: [{ text: msg.content }]
-      };
-    });
-
-    // Create a command with unified format for all models
-    const command = new ConverseCommand({
-      modelId: modelId,
-      messages: converseMessages,
-      inferenceConfig: {
-        maxTokens: 1000,
-        temperature: 0.7,
-        topP: 0.9
-      }
-    });
-
-    // Send the command to the model
-    const response = await bedrockClient.send(command);
+    // Send the request with unified format for all models
+    const response = await getModelProvider().converse({
+      modelId: model.id,
+      messages: toConverseMessages(messages),
+      system,
+      inferenceConfig
+    }, request.abortSignal);
     
     // Extract the response text from the standardized Converse API response
     const content = response.output?.message?.content?.[0]?.text || '';
-    span.setAttribute('llm.input_tokens', response.usage?.inputTokens || 0);
-    span.setAttribute('llm.output_tokens', response.usage?.outputTokens || 0);
-    span.setAttribute('llm.total_tokens', response.usage?.totalTokens || 0);
-    span.setAttribute('llm.cache_read', response.usage?.cacheReadInputTokens || 0);
-    span.setAttribute('llm.cache_write', response.usage?.cacheWriteInputTokens || 0);    
+    const usage = recordUsage(span, model, response.usage);
+    recordFinishReason(span, response.stopReason);
+    addCompletionEvent(span, content, response.stopReason || '');
     span.end();
-    return content;
+    return { content, usage, model };
   } catch (error) {
-    console.error('Error invoking model:', error);
-    span.recordException(error as Error);
-    span.setStatus({ code: api.SpanStatusCode.ERROR, message: (error as Error).message });
+    // A cancelled call did not fail, it is no longer wanted
+    if (request.abortSignal?.aborted) {
+      span.setAttribute('llm.cancelled', true);
+    } else {
+      console.error('Error invoking model:', error);
+      recordModelFailure(span, model, error);
+    }
     span.end();
     throw error;
   }
 }
 
 /**
- * Store message in DynamoDB
- * @param message - The message to store
- * @param sessionId - The session ID
+ * Start a ConverseStream call and read it up to the first text delta
+ * Errors before any text is produced can still be retried or sent to a fallback model.
+ * @param request - The model, conversation, system prompt and inference settings
+ * @param context - Where the call stands in the retry and fallback sequence
+ * @returns The open stream
+ */
+async function openModelStream(request: ModelRequest, context: AttemptContext): Promise<ModelStream> {
+  const { model, messages, systemPrompt, inferenceConfig } = request;
+  
+  // Create a span for the streamed model invocation
+  const span = startGenAiSpan('chat', model.id);
+  const system = toSystemBlocks(messages, systemPrompt, request.history?.summary);
+  const abortController = new AbortController();
+  const startTime = Date.now();
+  
+  // Add attributes to the span
+  setRequestAttributes(span, request);
+  setAttemptAttributes(span, context);
+  span.setAttribute('gen_ai.request.stream', true);
+  setLegacyAttribute(span, 'llm.streaming', true);
+  recordPrompt(span, system, messages);
+  
+  try {
+    const response = await getModelProvider().converseStream({
+      modelId: model.id,
+      messages: toConverseMessages(messages),
+      system,
+      inferenceConfig
+    }, abortController.signal);
+    
+    const stream: AsyncIterable<ConverseStreamOutput> = response.stream ?? (async function* () {})();
+    const events = stream[Symbol.asyncIterator]();
+    const buffered: ConverseStreamOutput[] = [];
+    for (let next = await events.next(); !next.done; next = await events.next()) {
+      buffered.push(next.value);
+      if (next.value.contentBlockDelta?.delta?.text) {
+        break;
+      }
+    }
+    return { model, span, startTime, abortController, buffered, events };
+  } catch (error) {
+    console.error('Error streaming model:', error);
+    recordModelFailure(span, model, error);
+    span.end();
+    throw error;
+  }
+}
+
+/**
+ * Stream a Bedrock model response using the ConverseStream API
+ * Failures before the first text delta are retried and sent to fallback models like invokeModel does;
+ * once text has been streamed, an error ends the response. The Bedrock stream is aborted when the
+ * consumer stops iterating early (e.g. a guardrail tripped).
+ * @param request - The model, conversation, system prompt and inference settings
+ * @param callbacks - Called with the model that answers and with its token usage and cost
+ * @returns Async iterator over the text deltas of the response
  */
-async function storeMessage(message: ChatMessage, sessionId: string): Promise<void> {
+async function* streamModel(request: ModelRequest, callbacks: ModelStreamCallbacks = {}): AsyncGenerator<string> {
+  const { model, span, startTime, abortController, buffered, events } = await callWithFallback(
+    getRequestFallbackChain(request, true),
+    (fallbackModel, context) => openModelStream(forModel(request, fallbackModel), context)
+  );
+  callbacks.onModel?.(model);
+  let completed = false;
+  
+  // Replay the events read while opening the stream, then read the rest
+  async function* allEvents(): AsyncGenerator<ConverseStreamOutput> {
+    yield* buffered;
+    for (let next = await events.next(); !next.done; next = await events.next()) {
+      yield next.value;
+    }
+  }
+  
   try {
-    const command = new PutCommand({
+    let firstToken = true;
+    let content = '';
+    let stopReason = '';
+    for await (const event of allEvents()) {
+      const text = event.contentBlockDelta?.delta?.text;
+      if (text) {
+        if (firstToken) {
+          const timeToFirstToken = Date.now() - startTime;
+          span.setAttribute('gen_ai.response.time_to_first_chunk', timeToFirstToken / 1000);
+          setLegacyAttribute(span, 'llm.time_to_first_token_ms', timeToFirstToken);
+          firstToken = false;
+        }
+        content += text;
+        yield text;
+      } else if (event.messageStop) {
+        stopReason = event.messageStop.stopReason || '';
+        recordFinishReason(span, stopReason);
+      } else if (event.metadata) {
+        // Usage only arrives at the end, so a stream cut off early reports no tokens or cost
+        callbacks.onUsage?.(recordUsage(span, model, event.metadata.usage));
+      }
+    }
+    completed = true;
+    addCompletionEvent(span, content, stopReason);
+  } catch (error) {
+    console.error('Error streaming model:', error);
+    recordModelFailure(span, model, error);
+    throw error;
+  } finally {
+    // Reaching here without completing means the consumer stopped reading, so stop the generation too
+    if (!completed) {
+      abortController.abort();
+    }
+    span.setAttribute('llm.stream.cut_off', !completed);
+    span.end();
+  }
+}
+
+/**
+ * Read every item of a session: its messages, oldest first, and the session item
+ * @param sessionId - The session ID
+ * @returns The stored messages, the session item, if any, and the primary keys of all of them
+ */
+async function querySession(sessionId: string): Promise<{
+  messages: StoredMessage[];
+  session?: Record<string, any>;
+  keys: { sessionId: string; sk: string }[];
+}> {
+  const messages: StoredMessage[] = [];
+  const keys: { sessionId: string; sk: string }[] = [];
+  let session: Record<string, any> | undefined;
+  let exclusiveStartKey: Record<string, any> | undefined;
+  do {
+    const response: QueryCommandOutput = await docClient.send(new QueryCommand({
       TableName: TABLE_NAME,
-      Item: {
-        ...message,
-        sessionId
+      KeyConditionExpression: 'sessionId = :sessionId',
+      ExpressionAttributeValues: {
+        ':sessionId': sessionId
+      },
+      // The version check of the next append relies on reading the latest session item
+      ConsistentRead: true,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    for (const item of response.Items || []) {
+      keys.push({ sessionId, sk: item.sk });
+      if (item.sk === SESSION_SORT_KEY) {
+        session = item;
+      } else {
+        const { sk, ttl, ...message } = item;
+        messages.push(message as StoredMessage);
       }
+    }
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+  return { messages, session, keys };
+}
+
+/**
+ * Load the stored conversation of a session
+ * The stored messages are the only source of the history sent to the model. The model gets the text
+ * kept for it, whatever the content capture policy; messages stored before that text was kept fall
+ * back to their content, and are left out if they have none.
+ * @param sessionId - The session ID
+ * @returns The messages, oldest first, the session version and the cached summary
+ */
+async function loadConversation(sessionId: string): Promise<Conversation> {
+  const { messages, session } = await querySession(sessionId);
+  return {
+    messages: messages
+      .map(({ modelContent, ...msg }) => ({ ...msg, content: modelContent ?? msg.content }))
+      .filter(msg => msg.content),
+    version: session?.messageCount || 0,
+    summary: session?.summary
+      ? { text: session.summary, throughMessageId: session.summaryThrough }
+      : undefined,
+    owner: session?.owner
+  };
+}
+
+/**
+ * Load the stored conversation of a session for the user continuing it
+ * @param sessionId - The session ID
+ * @param owner - The user sending the new message
+ * @returns The conversation, or undefined if the session belongs to another user
+ */
+async function loadOwnConversation(sessionId: string, owner: string): Promise<Conversation | undefined> {
+  const conversation = await loadConversation(sessionId);
+  const isNew = conversation.version === 0 && conversation.messages.length === 0;
+  return isNew || isSessionOwner(conversation.owner, owner) ? conversation : undefined;
+}
+
+/**
+ * Append a message to a session, unless the session changed since it was read or belongs to another user
+ * The message and the session item (owner, title, message count and last activity) are written in one
+ * transaction; the message count doubles as the session version for optimistic concurrency.
+ * The content, which the session history API returns, is stored according to the content capture
+ * policy, so it may be redacted or empty. The text the model needs in later turns is stored as
+ * `modelContent` regardless, protected like the rest of the table by its encryption and TTL.
+ * Each item gets a `ttl` from the retention period when it is written; the session item's is
+ * pushed back on every append, so an active session outlives its oldest messages.
+ * @param message - The message to append
+ * @param sessionId - The session ID
+ * @param expectedVersion - The session version the caller read
+ * @param owner - The user the session belongs to
+ * @returns The new session version, or undefined if the session was changed by another request
+ * or claimed by another user
+ */
+async function appendMessage(message: ChatMessage, sessionId: string, expectedVersion: number, owner: string): Promise<number | undefined> {
+  const title = message.role === 'user'
+    ? (captureContent(message.content) ?? '').slice(0, SESSION_TITLE_LENGTH)
+    : '';
+  const ttl = expiresAt(message.timestamp);
+  const assignments = [
+    '#owner = if_not_exists(#owner, :owner)',
+    'createdAt = if_not_exists(createdAt, :now)',
+    'updatedAt = :now',
+    ...(title ? ['title = if_not_exists(title, :title)'] : []),
+    ...(ttl !== undefined ? ['#ttl = :ttl'] : [])
+  ];
+  try {
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: sessionKey(sessionId),
+            UpdateExpression: `SET ${assignments.join(', ')} ADD messageCount :one`,
+            ConditionExpression: (expectedVersion === 0
+              ? '(attribute_not_exists(messageCount) OR messageCount = :expected)'
+              : 'messageCount = :expected') + ' AND (attribute_not_exists(#owner) OR #owner = :owner)',
+            ExpressionAttributeNames: {
+              '#owner': 'owner',
+              ...(ttl !== undefined ? { '#ttl': 'ttl' } : {})
+            },
+            ExpressionAttributeValues: {
+              ':owner': owner,
+              ':now': message.timestamp,
+              ':one': 1,
+              ':expected': expectedVersion,
+              ...(title ? { ':title': title } : {}),
+              ...(ttl !== undefined ? { ':ttl': ttl } : {})
+            }
+          }
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: {
+              ...message,
+              content: captureContent(message.content) ?? '',
+              modelContent: message.content,
+              sessionId,
+              userId: owner,
+              sk: messageSortKey(expectedVersion + 1, message.id),
+              ...(ttl !== undefined ? { ttl } : {})
+            }
+          }
+        }
+      ]
     });
     
     await docClient.send(command);
+    return expectedVersion + 1;
   } catch (error) {
+    if (error instanceof TransactionCanceledException
+      && error.CancellationReasons?.some(reason => reason.Code === 'ConditionalCheckFailed')) {
+      return undefined;
+    }
     console.error('Error storing message:', error);
     throw error;
   }
 }
 
 /**
- * Get session messages
+ * Append the user message that starts a turn and build the conversation to send to the model
+ * The conversation is loaded beforehand, alongside the input guardrail check; the append fails if the
+ * session changed since.
+ * @param userMessage - The new user message
+ * @param sessionId - The session ID
+ * @param owner - The user the session belongs to
+ * @param history - The stored conversation before the new user message
+ * @returns The conversation including the new user message and the session version after it,
+ * or undefined if another request changed the session at the same time
+ */
+async function startTurn(userMessage: ChatMessage, sessionId: string, owner: string, history: Conversation): Promise<Conversation | undefined> {
+  const { messages, version, summary } = history;
+  const newVersion = await appendMessage(userMessage, sessionId, version, owner);
+  if (newVersion === undefined) {
+    return undefined;
+  }
+  return { messages: [...messages, userMessage], version: newVersion, summary };
+}
+
+/**
+ * Append the assistant reply that finishes a turn
+ * Another turn may have been appended meanwhile; the reply then goes after it rather than failing.
+ * @param assistantMessage - The reply
+ * @param sessionId - The session ID
+ * @param version - The session version after the user message of the turn
+ * @param owner - The user the session belongs to
+ */
+async function finishTurn(assistantMessage: ChatMessage, sessionId: string, version: number, owner: string): Promise<void> {
+  let expectedVersion = version;
+  for (let attempt = 1; attempt <= APPEND_REPLY_ATTEMPTS; attempt++) {
+    if (await appendMessage(assistantMessage, sessionId, expectedVersion, owner) !== undefined) {
+      return;
+    }
+    expectedVersion = (await loadConversation(sessionId)).version;
+  }
+  throw new Error(`Could not append the reply to session ${sessionId}: the session keeps changing`);
+}
+
+/**
+ * Add the cost of a model call to the session totals in DynamoDB
+ * Totals live on the session item so that they are updated atomically and
+ * do not show up among the session messages; a `costUsd#<modelId>` attribute keeps the split per model.
  * @param sessionId - The session ID
- * @returns Session messages
+ * @param modelId - The model that was called
+ * @param usage - Token usage and cost of the call
+ * @returns The session's cumulative cost in USD, or undefined if it could not be updated
  */
-async function getSessionMessages(sessionId: string): Promise<ChatMessage[]> {
+async function addSessionCost(sessionId: string, modelId: string, usage: UsageCost): Promise<number | undefined> {
   try {
-    const command = new QueryCommand({
+    const command = new UpdateCommand({
       TableName: TABLE_NAME,
-      KeyConditionExpression: 'id = :sessionId',
+      Key: sessionKey(sessionId),
+      UpdateExpression: 'ADD costUsd :cost, #modelCost :cost, inputTokens :inputTokens, outputTokens :outputTokens SET updatedAt = :now',
+      ExpressionAttributeNames: {
+        '#modelCost': `costUsd#${modelId}`
+      },
       ExpressionAttributeValues: {
-        ':sessionId': sessionId
+        ':cost': usage.costUsd,
+        ':inputTokens': usage.inputTokens,
+        ':outputTokens': usage.outputTokens,
+        ':now': Date.now()
       },
-      ScanIndexForward: true // Sort by timestamp ascending
+      ReturnValues: 'UPDATED_NEW'
     });
     
     const response = await docClient.send(command);
-    return response.Items as ChatMessage[] || [];
+    return response.Attributes?.costUsd;
   } catch (error) {
-    console.error('Error getting session messages:', error);
-    return [];
+    // Cost tracking must not fail the chat itself
+    console.error('Error updating session cost:', error);
+    return undefined;
   }
 }
 
 /**
- * Lambda handler
- * @param event - API Gateway event
- * @returns API Gateway response
+ * Add a model call to the session cost and record the totals on the request span
+ * @param span - The request span
+ * @param sessionId - The session ID
+ * @param modelId - The model that was called
+ * @param usage - Token usage and cost of the call
+ * @returns Cost returned to the client
  */
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  // Create a span for the entire request
-  const tracer = api.trace.getTracer(TRACE_NAME);
-  const meter = api.metrics.getMeter(TRACE_NAME);
-  const currentSpan = api.trace.getActiveSpan() || tracer.startSpan(TRACE_NAME);
-  
+async function trackCost(span: api.Span, sessionId: string, modelId: string, usage: UsageCost): Promise<ChatCost> {
+  const sessionUsd = await addSessionCost(sessionId, modelId, usage);
+  span.setAttribute('llm.cost_usd', usage.costUsd);
+  if (sessionUsd !== undefined) {
+    span.setAttribute('llm.session_cost_usd', sessionUsd);
+  }
+  return {
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    requestUsd: usage.costUsd,
+    sessionUsd
+  };
+}
+
+/**
+ * Cache the summary of a session's oldest turns on its session item
+ * Only the model reads the summary, so like `modelContent` it is stored whatever the content capture policy.
+ * @param sessionId - The session ID
+ * @param summary - The summary and the last message it covers
+ * @param modelId - The model that wrote the summary
+ */
+async function cacheSummary(sessionId: string, summary: ConversationSummary, modelId: string): Promise<void> {
+  if (!summary.text) {
+    return;
+  }
   try {
-    // Parse request body
-    const body = JSON.parse(event.body || '{}');
-    
-    // Always generate a new session ID on the server if not provided
-    // This ensures session IDs are securely generated on the server side
-    const sessionId = body.sessionId || randomUUID();
-    
-    // Add session ID to the span
-    currentSpan.setAttribute('llm.session_id', sessionId);
-  
-    const { message, modelId, history = [] } = body;
-    
-    // Create user message
-    const userMessage: ChatMessage = {
-      id: sessionId,
-      timestamp: Date.now(),
-      role: 'user',
-      content: message
-    };
-      
-    // Apply guardrails to user message
-    const userGuardrailsResult = await tracer.startActiveSpan('Guardrails-INPUT', async (span : api.Span) => {
-      span.setAttribute('guardrails.id', GUARDRAIL_ID);
-      span.setAttribute('guardrails.version', GUARDRAIL_VERSION);
-      const result = await applyGuardrails(message, 'INPUT');
-      const totalScore = Object.values(result.contentFilterResults || {}).reduce((acc, filter) => acc + (filter.score || 0), 0);
-      if (totalScore > 0) {
-        span.setStatus({ code: api.SpanStatusCode.ERROR, message: 'User message filtered' });
-        span.setAttribute('guardrails.input', message);
+    await docClient.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: sessionKey(sessionId),
+      UpdateExpression: 'SET summary = :summary, summaryThrough = :through, summaryModelId = :modelId',
+      ExpressionAttributeValues: {
+        ':summary': summary.text,
+        ':through': summary.throughMessageId,
+        ':modelId': modelId
       }
-      span.end();
-      return result;
-    });
-    
-    // Check if user message is filtered
-    const isUserMessageFiltered = Object.values(userGuardrailsResult.contentFilterResults || {})
-      .some(filter => filter.filtered === true);
-    
-    if (isUserMessageFiltered) {
+    }));
+  } catch (error) {
+    // The summary is written again on the next turn
+    console.error('Error caching conversation summary:', error);
+  }
+}
+
+/**
+ * Summarize turns that no longer fit in the token budget, extending the previous summary
+ * The summary model's cost is added to the session and its tokens count against the quotas of the request,
+ * like any other model call.
+ * @param span - The request span
+ * @param subjects - The user and IP address of the request
+ * @param sessionId - The session ID
+ * @param turns - The messages to summarize, oldest first
+ * @param previous - The summary of the turns before them, if any
+ * @param abortSignal - Cancels the summary of a speculative call; a cancelled summary is neither cached nor added
+ * to the session's cost
+ * @returns The new summary
+ */
+async function summarizeTurns(span: api.Span, subjects: QuotaSubject[], sessionId: string, turns: ChatMessage[],
+  previous?: ConversationSummary, abortSignal?: AbortSignal): Promise<ConversationSummary> {
+  const model = getModel(getSummaryModelId());
+  if (!model) {
+    throw new Error(`Summary model not in the catalog: ${getSummaryModelId()}`);
+  }
+  const transcript = turns.map(msg => `${msg.role}: ${msg.content}`).join('\n\n');
+  const response = await invokeModel({
+    model,
+    messages: [{
+      id: randomUUID(),
+      role: 'user',
+      content: previous ? `Summary so far:\n${previous.text}\n\nConversation:\n${transcript}` : `Conversation:\n${transcript}`,
+      timestamp: Date.now()
+    }],
+    systemPrompt: { text: SUMMARY_INSTRUCTIONS },
+    inferenceConfig: { maxTokens: SUMMARY_MAX_TOKENS, temperature: 0, topP: 0.9 },
+    abortSignal
+  });
+  const summary = { text: response.content, throughMessageId: turns[turns.length - 1].id };
+  await trackTokenUse(span, subjects, response.usage);
+  // The session is left as it was once the call is cancelled; the call made in its place summarizes again
+  if (!abortSignal?.aborted) {
+    await addSessionCost(sessionId, model.id, response.usage);
+    await cacheSummary(sessionId, summary, model.id);
+  }
+  return summary;
+}
+
+/**
+ * Fit the conversation into the model's token budget with the history strategy chosen for the model
+ * If the summary cannot be written, the turns it would cover are dropped instead.
+ * @param span - The request span
+ * @param subjects - The user and IP address of the request, charged for the summary model's tokens
+ * @param conversation - The conversation, ending with the new user message
+ * @param sessionId - The session ID
+ * @param options - The model, system prompt and inference settings
+ * @param abortSignal - Cancels the request of a speculative call, including its summary
+ * @returns The model request
+ */
+async function prepareModelRequest(span: api.Span, subjects: QuotaSubject[], conversation: Conversation, sessionId: string,
+  options: ChatOptions, abortSignal?: AbortSignal): Promise<ModelRequest> {
+  const { model, systemPrompt, inferenceConfig } = options;
+  const strategy = selectHistoryStrategy(model);
+  const systemText = [systemPrompt.template?.text, systemPrompt.text].filter(text => text).join('\n');
+  const tokenBudget = getHistoryTokenBudget(model, inferenceConfig.maxTokens, systemText);
+  const plan = planHistory(conversation.messages, strategy, tokenBudget, conversation.summary);
+  
+  let summary = plan.summary;
+  let { turnsDropped, turnsSummarized } = plan;
+  if (plan.turnsToSummarize > 0) {
+    try {
+      summary = await summarizeTurns(span, subjects, sessionId, plan.toSummarize, plan.summary, abortSignal);
+      turnsSummarized += plan.turnsToSummarize;
+    } catch (error) {
+      if (abortSignal?.aborted) {
+        throw error;
+      }
+      console.error('Error summarizing conversation:', error);
+      turnsDropped += plan.turnsToSummarize;
+    }
+  }
+  
+  return {
+    model,
+    messages: plan.messages,
+    systemPrompt,
+    inferenceConfig,
+    history: {
+      strategy,
+      tokenBudget,
+      estimatedTokens: plan.estimatedTokens + (summary ? estimateTokens(summary.text) : 0),
+      turnsDropped,
+      turnsSummarized,
+      summary: summary?.text
+    }
+  };
+}
+
+/**
+ * Whether the JSON handler may call the model before the input guardrail has finished
+ * Off by default: a blocked message then costs the tokens the model generated before it was cancelled.
+ * @returns True if SPECULATIVE_MODEL_CALL is 'true'
+ */
+function isSpeculativeModelCallEnabled(): boolean {
+  return process.env.SPECULATIVE_MODEL_CALL === 'true';
+}
+
+/**
+ * Call the model as soon as the history is loaded, without waiting for the input guardrail
+ * A call cancelled before it answered counts the estimated size of its input against the quotas, since the
+ * model may already have read it.
+ * @param span - The request span
+ * @param subjects - The user and IP address of the request
+ * @param history - The stored conversation being loaded, undefined if it belongs to another user
+ * @param userMessage - The new user message, as the user sent it
+ * @param sessionId - The session ID
+ * @param options - The model, system prompt and inference settings
+ * @returns The speculative call
+ */
+function startSpeculativeCall(span: api.Span, subjects: QuotaSubject[], history: Promise<Conversation | undefined>,
+  userMessage: ChatMessage, sessionId: string, options: ChatOptions): SpeculativeCall {
+  const abortController = new AbortController();
+  const response = history.then(conversation => timeStage(span, 'model', async () => {
+    if (!conversation) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const request = await prepareModelRequest(span, subjects, {
+      ...conversation,
+      messages: [...conversation.messages, { ...userMessage }]
+    }, sessionId, options, abortController.signal);
+    try {
+      return await invokeModel({ ...request, abortSignal: abortController.signal });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        await trackTokenUse(span, subjects, estimateUsage(request, request.model, ''));
+      }
+      throw error;
+    }
+  }));
+  // The response is only awaited once the guardrail let the message through
+  response.catch(() => undefined);
+  return { response, abortController };
+}
+
+/**
+ * Cancel a speculative call and wait for it to stop, so that its spans end within the request
+ * A call that already answered counts its tokens against the quotas even though the reply is not used.
+ * @param span - The request span
+ * @param subjects - The user and IP address of the request
+ * @param speculation - The speculative call
+ * @param result - Why it was cancelled: the input was blocked or the session changed ('cancelled'),
+ * or the guardrail masked the input the call was made with ('discarded')
+ */
+async function cancelSpeculativeCall(span: api.Span, subjects: QuotaSubject[], speculation: SpeculativeCall,
+  result: 'cancelled' | 'discarded'): Promise<void> {
+  span.setAttribute('llm.speculative.result', result);
+  speculation.abortController.abort();
+  const response = await speculation.response.catch(() => undefined);
+  if (response) {
+    await trackTokenUse(span, subjects, response.usage);
+  }
+}
+
+/**
+ * List a page of a user's sessions, most recently active first
+ * @param owner - The user whose sessions to list
+ * @param cursor - Cursor of the page to list, from the previous page; the first page if undefined
+ * @returns Session summaries and the cursor of the next page, or an error if the cursor is not valid
+ */
+async function listSessions(owner: string, cursor?: string): Promise<ChatSessionPage | { error: string }> {
+  const exclusiveStartKey = cursor !== undefined ? decodeSessionCursor(cursor, owner) : undefined;
+  if (cursor !== undefined && !exclusiveStartKey) {
+    return { error: 'Invalid cursor' };
+  }
+  const response: QueryCommandOutput = await docClient.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    IndexName: OWNER_INDEX_NAME,
+    KeyConditionExpression: '#owner = :owner',
+    ExpressionAttributeNames: {
+      '#owner': 'owner'
+    },
+    ExpressionAttributeValues: {
+      ':owner': owner
+    },
+    ScanIndexForward: false, // Sort by last activity descending
+    Limit: SESSION_PAGE_SIZE,
+    ExclusiveStartKey: exclusiveStartKey
+  }));
+  const sessions = (response.Items || []).map(item => ({
+    id: item.sessionId,
+    title: item.title || '',
+    createdAt: item.createdAt || item.updatedAt || 0,
+    updatedAt: item.updatedAt || 0,
+    messageCount: item.messageCount || 0,
+    costUsd: item.costUsd
+  }));
+  return response.LastEvaluatedKey
+    ? { sessions, nextCursor: encodeSessionCursor(response.LastEvaluatedKey as OwnerIndexKey) }
+    : { sessions };
+}
+
+/**
+ * Get a stored session with its messages
+ * @param sessionId - The session ID
+ * @param owner - The user asking for the session
+ * @returns The session, or undefined if it does not exist or belongs to another user
+ */
+async function getSession(sessionId: string, owner: string): Promise<ChatSession | undefined> {
+  const { messages, session } = await querySession(sessionId);
+  if ((messages.length === 0 && !session) || !isSessionOwner(session?.owner, owner)) {
+    return undefined;
+  }
+  return {
+    id: sessionId,
+    // The history API shows what the content capture policy keeps, not the model's copy
+    messages: messages.map(({ modelContent, ...msg }) => msg),
+    createdAt: session?.createdAt || messages[0]?.timestamp || 0,
+    updatedAt: session?.updatedAt || messages[messages.length - 1]?.timestamp || 0
+  };
+}
+
+/**
+ * Delete a session: its messages and its session item
+ * @param sessionId - The session ID
+ * @param owner - The user deleting the session
+ * @returns False if the session does not exist or belongs to another user
+ */
+async function deleteSession(sessionId: string, owner: string): Promise<boolean> {
+  const { keys, session } = await querySession(sessionId);
+  if (keys.length === 0 || !isSessionOwner(session?.owner, owner)) {
+    return false;
+  }
+  
+  for (let i = 0; i < keys.length; i += BATCH_WRITE_LIMIT) {
+    await writeBatch(docClient, TABLE_NAME, keys.slice(i, i + BATCH_WRITE_LIMIT).map(key => ({ DeleteRequest: { Key: key } })));
+  }
+  return true;
+}
+
+/**
+ * Apply guardrails to content inside a span for the given source
+ * @param content - The content to check
+ * @param source - The source of the content ('INPUT' or 'OUTPUT')
+ * @param modelId - The model the conversation is with, for metrics
+ * @returns Guardrails result
+ */
+async function checkGuardrails(content: string, source: 'INPUT' | 'OUTPUT', modelId: string): Promise<GuardrailsResult> {
+  const tracer = api.trace.getTracer(TRACE_NAME);
+  return tracer.startActiveSpan(`Guardrails-${source}`, async (span : api.Span) => {
+    span.setAttribute('guardrails.id', GUARDRAIL_ID);
+    span.setAttribute('guardrails.version', GUARDRAIL_VERSION);
+    // Content without text (e.g. an empty reply) has nothing to check
+    const skipped = !content.trim();
+    if (skipped) {
+      span.setAttribute('guardrails.skipped', true);
+    }
+    const result = skipped
+      ? { findings: [], contentFilterResults: emptyContentFilterResults() }
+      : await applyGuardrails(content, source);
+    span.setAttribute('guardrails.status', getGuardrailStatus(result));
+    if (result.action) {
+      span.setAttribute('guardrails.action', result.action);
+    }
+    if (result.error !== undefined) {
+      // Content that was not evaluated must not look clean in traces and metrics
+      const failureMode = getGuardrailFailureMode(source);
+      const exceptionType = result.errorType || 'Unknown';
+      span.addEvent('guardrails.error', {
+        'guardrails.source': source,
+        'guardrails.failure_mode': failureMode,
+        'exception.type': exceptionType
+      });
+      span.setStatus({ code: api.SpanStatusCode.ERROR, message: result.error });
+      recordGuardrailError(modelId, source, exceptionType, failureMode);
+    }
+    // Categories over their block threshold count as blocked, like those Bedrock blocked
+    const blockedCategories = [...new Set([
+      ...result.findings.filter(isBlockingFinding).map(findingCategory),
+      ...categoriesAtLevel(result.contentFilterResults, 'block')
+    ])];
+    recordGuardrailBlocks(modelId, source, blockedCategories);
+    span.setAttribute('guardrails.level', maxGuardrailLevel(...Object.values(result.contentFilterResults).map(filter => filter.level)));
+    const detectedPolicies = [...new Set(result.findings.filter(finding => finding.detected).map(finding => finding.policy))];
+    if (detectedPolicies.length > 0) {
+      span.setAttribute('guardrails.policies', detectedPolicies);
+    }
+    // Only content that was withheld marks the span failed; a low-confidence finding Bedrock let through does not
+    if (isFiltered(result)) {
+      span.setStatus({ code: api.SpanStatusCode.ERROR, message: source === 'INPUT' ? 'User message filtered' : 'Model response filtered' });
+    }
+    const totalScore = Object.values(result.contentFilterResults || {}).reduce((acc, filter) => acc + (filter.score || 0), 0);
+    if (totalScore > 0 || detectedPolicies.length > 0) {
+      const capturedContent = captureContent(content);
+      if (capturedContent !== undefined) {
+        span.setAttribute(source === 'INPUT' ? 'guardrails.input' : 'guardrails.output', capturedContent);
+      }
+    }
+    span.end();
+    return result;
+  });
+}
+
+/**
+ * Check whether any guardrail policy blocked the content, or a content filter category reached its block threshold
+ * @param result - Guardrails result
+ * @returns True if the content was filtered
+ */
+function isFiltered(result: GuardrailsResult): boolean {
+  return result.findings.some(isBlockingFinding) || categoriesAtLevel(result.contentFilterResults, 'block').length > 0;
+}
+
+/**
+ * Get what happens to content of a source when the guardrail cannot evaluate it
+ * @param source - The source of the content ('INPUT' or 'OUTPUT')
+ * @returns The failure mode set by GUARDRAIL_FAILURE_MODE_INPUT or GUARDRAIL_FAILURE_MODE_OUTPUT, 'open' by default
+ */
+function getGuardrailFailureMode(source: 'INPUT' | 'OUTPUT'): GuardrailFailureMode {
+  return process.env[`GUARDRAIL_FAILURE_MODE_${source}`] === 'closed' ? 'closed' : 'open';
+}
+
+/**
+ * Check whether content must be withheld: it was filtered, or could not be evaluated and its source fails closed
+ * @param result - Guardrails result
+ * @param source - The source of the content ('INPUT' or 'OUTPUT')
+ * @returns True if the content must be withheld
+ */
+function isBlocked(result: GuardrailsResult, source: 'INPUT' | 'OUTPUT'): boolean {
+  return isFiltered(result) || (result.error !== undefined && getGuardrailFailureMode(source) === 'closed');
+}
+
+/**
+ * Get the text the guardrail returned in place of the content
+ * @param result - Guardrails result
+ * @returns The blocked messaging or masked text, or undefined if the guardrail did not intervene
+ */
+function guardrailOutput(result: GuardrailsResult): string | undefined {
+  if (result.action !== GuardrailAction.GUARDRAIL_INTERVENED) {
+    return undefined;
+  }
+  return (result.outputs || []).map(output => output.text || '').join('') || undefined;
+}
+
+/**
+ * Get the content to use once the guardrail let it through, masked if the guardrail anonymized part of it
+ * @param result - Guardrails result of the content
+ * @param content - The original content
+ * @returns The content to store and show
+ */
+function maskedContent(result: GuardrailsResult, content: string): string {
+  return guardrailOutput(result) ?? content;
+}
+
+/**
+ * Get the message that replaces a refused user message
+ * @param result - Guardrails result of the message
+ * @returns The guardrail's blocked input messaging, or the notice for a message that could not be checked
+ */
+function inputRefusal(result: GuardrailsResult): string {
+  if (!isFiltered(result)) {
+    return INPUT_UNCHECKED_MESSAGE;
+  }
+  // When only our block threshold fired, the guardrail's outputs may be merely masked text, not its blocked messaging
+  return (result.findings.some(isBlockingFinding) && guardrailOutput(result)) || INPUT_FILTERED_MESSAGE;
+}
+
+/**
+ * Get the message that replaces a withheld model response
+ * @param result - Guardrails result of the response
+ * @returns The guardrail's blocked output messaging, or the notice for content that could not be checked
+ */
+function outputRefusal(result: GuardrailsResult): string {
+  if (!isFiltered(result)) {
+    return OUTPUT_UNCHECKED_MESSAGE;
+  }
+  // When only our block threshold fired, the guardrail's outputs may be merely masked text, not its blocked messaging
+  return (result.findings.some(isBlockingFinding) && guardrailOutput(result)) || OUTPUT_FILTERED_MESSAGE;
+}
+
+/**
+ * Get the status of one or more guardrail checks
+ * A filter finding outweighs a failed check, which outweighs clean checks.
+ * @param results - Guardrails results; missing ones (nothing was checked) are ignored
+ * @returns Guardrail status
+ */
+function getGuardrailStatus(...results: (GuardrailsResult | undefined)[]): GuardrailStatus {
+  const checked = results.filter((result): result is GuardrailsResult => result !== undefined);
+  if (checked.some(isFiltered)) {
+    return 'filtered';
+  }
+  return checked.some(result => result.error !== undefined) ? 'error' : 'clean';
+}
+
+/**
+ * Convert guardrails result to the scores returned to the client
+ * @param result - Guardrails result
+ * @returns Guardrails scores
+ */
+function toGuardrailsScores(result?: GuardrailsResult): GuardrailsScores {
+  return {
+    harmful: result?.contentFilterResults?.harmful?.score || 0,
+    hateful: result?.contentFilterResults?.hateful?.score || 0,
+    sexual: result?.contentFilterResults?.sexual?.score || 0,
+    toxic: result?.contentFilterResults?.toxic?.score || 0,
+    misconduct: result?.contentFilterResults?.misconduct?.score || 0,
+    promptAttack: result?.contentFilterResults?.promptAttack?.score || 0
+  };
+}
+
+/**
+ * Grade the exchange against the content filter thresholds
+ * @param results - Guardrails results; missing ones (nothing was checked) are ignored
+ * @returns The highest level reached and the highest level of each category
+ */
+function toGuardrailLevels(...results: (GuardrailsResult | undefined)[]): Pick<ChatResponse, 'guardrailLevel' | 'guardrailLevels'> {
+  const guardrailLevels = {} as Record<ContentFilterCategory, GuardrailLevel>;
+  for (const result of results) {
+    for (const [category, filter] of Object.entries(result?.contentFilterResults || {})) {
+      guardrailLevels[category as ContentFilterCategory] = maxGuardrailLevel(guardrailLevels[category as ContentFilterCategory] || 'none', filter.level);
+    }
+  }
+  return { guardrailLevel: maxGuardrailLevel(...Object.values(guardrailLevels)), guardrailLevels };
+}
+
+/**
+ * Get the findings returned to the client: those whose policy blocked or changed the content
+ * A finding repeated by overlapping stream windows is returned once.
+ * @param results - Guardrails results; missing ones (nothing was checked) are ignored
+ * @returns Guardrail findings
+ */
+function toGuardrailFindings(...results: (GuardrailsResult | undefined)[]): GuardrailFinding[] {
+  const findings = new Map<string, GuardrailFinding>();
+  for (const finding of results.flatMap(result => result?.findings || [])) {
+    if (finding.action !== 'NONE') {
+      findings.set(`${finding.policy}#${finding.name}#${finding.action}`, finding);
+    }
+  }
+  return [...findings.values()];
+}
+
+/**
+ * Build an error response
+ * @param statusCode - HTTP status code
+ * @param body - The error
+ * @param headers - Headers to send besides the content type
+ * @returns API Gateway response
+ */
+function errorResponse(statusCode: number, body: ApiError, headers: Record<string, string> = {}): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Build a 400 response for an invalid request
+ * @param invalid - Description of what is invalid, its code and the invalid fields
+ * @param sessionId - The session ID, unless the body could not be read
+ * @returns API Gateway response
+ */
+function badRequest(invalid: Omit<ApiError, 'sessionId'>, sessionId?: string): APIGatewayProxyResult {
+  return errorResponse(400, { ...invalid, sessionId });
+}
+
+/**
+ * Build a 409 response for a turn that raced another request on the same session
+ * @param sessionId - The session ID
+ * @returns API Gateway response
+ */
+function conflict(sessionId: string): APIGatewayProxyResult {
+  return errorResponse(409, { error: CONFLICT_MESSAGE, code: 'conflict', sessionId });
+}
+
+/**
+ * Build a 404 response for a session that does not exist or belongs to another user
+ * @param sessionId - The session ID
+ * @returns API Gateway response
+ */
+function sessionNotFound(sessionId: string): APIGatewayProxyResult {
+  return errorResponse(404, { error: `Session not found: ${sessionId}`, code: 'not_found', sessionId });
+}
+
+/**
+ * Describe a failure left after every retry and fallback, without revealing its internals
+ * Transient failures are reported as such, so the client can try again.
+ * @param error - The error
+ * @returns HTTP status code and the error to respond with
+ */
+function describeFailure(error: unknown): { statusCode: number; body: ApiError } {
+  if (classifyFailure(error) === 'fail') {
+    return { statusCode: 500, body: { error: INTERNAL_ERROR, code: 'internal_error' } };
+  }
+  const throttled = error instanceof Error && error.name === 'ThrottlingException';
+  return { statusCode: 503, body: { error: MODEL_UNAVAILABLE_ERROR, code: throttled ? 'throttled' : 'upstream_error' } };
+}
+
+/**
+ * Identify the user sending a request and record it on the request span as `enduser.id`
+ * @param event - Function URL or API Gateway event
+ * @param span - The span representing the request
+ * @returns The owner of the user's sessions, or the status and error to respond with
+ */
+async function identifyUser(event: HttpEvent, span: api.Span): Promise<{ owner: string } | { statusCode: number; error: ApiError }> {
+  let user: AuthenticatedUser | undefined;
+  try {
+    user = await authenticate(event.headers);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return { statusCode: 401, error: { error: error.message, code: 'unauthorized' } };
+    }
+    console.error('Error verifying ID token:', error);
+    span.recordException(error as Error);
+    return { statusCode: 503, error: { error: AUTH_UNAVAILABLE_ERROR, code: 'upstream_error' } };
+  }
+  if (user) {
+    span.setAttribute('enduser.id', user.userId);
+  }
+  return { owner: toOwner(user) };
+}
+
+/**
+ * Get a request header, whatever its case
+ * @param event - Function URL or API Gateway event
+ * @param name - The header name in lower case
+ * @returns Header value, or undefined if the header is not set
+ */
+function getHeader(event: HttpEvent, name: string): string | undefined {
+  return Object.entries(event.headers || {}).find(([header]) => header.toLowerCase() === name)?.[1];
+}
+
+/**
+ * Get the IP address of the client
+ * Behind CloudFront the function URL sees the address of CloudFront, so the viewer address it forwards
+ * (CloudFront-Viewer-Address, `<ip>:<port>`) is used when present.
+ * @param event - Function URL or API Gateway event
+ * @returns IP address, or undefined if unknown
+ */
+function getClientIp(event: HttpEvent): string | undefined {
+  const viewerAddress = getHeader(event, 'cloudfront-viewer-address');
+  if (viewerAddress && viewerAddress.includes(':')) {
+    return viewerAddress.slice(0, viewerAddress.lastIndexOf(':'));
+  }
+  return 'rawPath' in event ? event.requestContext?.http?.sourceIp : event.requestContext?.identity?.sourceIp;
+}
+
+/**
+ * Count a chat request against the quotas of its user and IP address
+ * A quota gone over is recorded as a `quota.exceeded` span event and metric. When the quota table
+ * cannot be reached the request is let through.
+ * @param span - The span representing the request
+ * @param subjects - The user and IP address of the request
+ * @returns The quota gone over, or undefined if the request may go ahead
+ */
+async function enforceQuotas(span: api.Span, subjects: QuotaSubject[]): Promise<QuotaExceeded | undefined> {
+  try {
+    const exceeded = await checkQuotas(subjects);
+    if (exceeded) {
+      span.addEvent('quota.exceeded', {
+        'quota.scope': exceeded.scope,
+        'quota.name': exceeded.quota,
+        'quota.limit': exceeded.limit,
+        'quota.used': exceeded.used
+      });
+      recordQuotaExceeded(exceeded.scope, exceeded.quota);
+    }
+    return exceeded;
+  } catch (error) {
+    console.error('Error checking quotas:', error);
+    span.recordException(error as Error);
+    return undefined;
+  }
+}
+
+/**
+ * Count the tokens of a model call against the daily quotas of the request
+ * A failure is logged and recorded on the span; the reply has already been generated.
+ * @param span - The span representing the request
+ * @param subjects - The user and IP address of the request
+ * @param usage - Token counts of the call
+ */
+async function trackTokenUse(span: api.Span, subjects: QuotaSubject[], usage: UsageCost): Promise<void> {
+  try {
+    await consumeTokens(subjects, usage.inputTokens + usage.outputTokens);
+  } catch (error) {
+    console.error('Error counting tokens against quotas:', error);
+    span.recordException(error as Error);
+  }
+}
+
+/**
+ * Estimate the usage of a model call that ended without reporting it, e.g. a stream cut off or a cancelled call
+ * @param request - The model request; its history stats hold the estimated size of the messages
+ * @param model - The model that answered
+ * @param output - The text the model generated before the call ended
+ * @returns Estimated token counts and what they cost
+ */
+function estimateUsage(request: ModelRequest, model: ModelInfo, output: string): UsageCost {
+  const systemText = [request.systemPrompt.template?.text, request.systemPrompt.text].filter(text => text).join('\n');
+  const inputTokens = (request.history?.estimatedTokens ?? 0) + estimateTokens(systemText);
+  const outputTokens = estimateTokens(output);
+  return calculateCost(model.pricing, { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens });
+}
+
+/**
+ * Describe a quota gone over, and the headers telling the client when to try again
+ * @param exceeded - The quota gone over
+ * @param now - The current time, in milliseconds
+ * @returns Error message and Retry-After and X-RateLimit-* headers
+ */
+function describeQuotaExceeded(exceeded: QuotaExceeded, now: number = Date.now()): { error: string; headers: Record<string, string> } {
+  const retryAfter = Math.max(1, Math.ceil((exceeded.resetAt - now) / 1000));
+  const period = exceeded.quota === 'requests' ? 'minute' : 'day';
+  return {
+    error: `Too many ${exceeded.quota} for this ${exceeded.scope === 'ip' ? 'IP address' : 'user'}: `
+      + `the limit is ${exceeded.limit} per ${period}; try again in ${retryAfter} seconds`,
+    headers: {
+      'Retry-After': String(retryAfter),
+      'X-RateLimit-Limit': String(exceeded.limit),
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(Math.ceil(exceeded.resetAt / 1000)),
+      'X-RateLimit-Scope': `${exceeded.scope}.${exceeded.quota}`
+    }
+  };
+}
+
+/**
+ * Build a 429 response for a request over a quota
+ * @param exceeded - The quota gone over
+ * @returns API Gateway response
+ */
+function tooManyRequests(exceeded: QuotaExceeded): APIGatewayProxyResult {
+  const { error, headers } = describeQuotaExceeded(exceeded);
+  return errorResponse(429, { error, code: 'throttled', quota: exceeded }, headers);
+}
+
+/**
+ * Get the HTTP method and path of the request
+ * @param event - Function URL or API Gateway event
+ * @returns HTTP method and path
+ */
+function getRequestLine(event: HttpEvent): { method: string; path: string } {
+  const { requestContext, rawPath } = event as APIGatewayProxyEventV2;
+  if (requestContext?.http) {
+    return { method: requestContext.http.method || '', path: rawPath || requestContext.http.path || '' };
+  }
+  const { httpMethod, path } = event as APIGatewayProxyEvent;
+  return { method: httpMethod || '', path: path || '' };
+}
+
+/**
+ * Build a JSON response
+ * @param statusCode - HTTP status code
+ * @param body - The response body
+ * @returns API Gateway response
+ */
+function jsonResponse(statusCode: number, body: unknown): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+// Routes of the JSON function URL; the streaming function URL only takes chat messages.
+// Sessions of other users are reported as not found, and the session routes only exist when users sign in.
+const ROUTES: Route<RouteContext>[] = [
+  {
+    method: 'POST',
+    path: '/',
+    handler: ({ event, span, owner }) => handleChatRequest(event, span, owner)
+  },
+  {
+    method: 'GET',
+    path: '/models',
+    public: true,
+    handler: async () => jsonResponse(200, { models: listModels() })
+  },
+  {
+    method: 'GET',
+    path: '/sessions',
+    signedIn: true,
+    handler: async ({ event, owner }) => {
+      const page = await listSessions(owner, event.queryStringParameters?.cursor);
+      return 'error' in page
+        ? badRequest({ error: page.error, code: 'validation', details: [{ path: 'cursor', message: 'is not valid' }] })
+        : jsonResponse(200, page);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/sessions/:sessionId',
+    signedIn: true,
+    handler: async ({ owner }, { sessionId }) => {
+      const session = await getSession(sessionId, owner);
+      return session ? jsonResponse(200, session) : sessionNotFound(sessionId);
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/sessions/:sessionId',
+    signedIn: true,
+    handler: async ({ owner }, { sessionId }) => {
+      const deleted = await deleteSession(sessionId, owner);
+      return deleted ? jsonResponse(200, { id: sessionId, deleted: true }) : sessionNotFound(sessionId);
+    }
+  }
+];
+
+/**
+ * Lambda handler
+ * @param event - Function URL or API Gateway event
+ * @returns API Gateway response
+ */
+export const handler = async (event: HttpEvent): Promise<APIGatewayProxyResult> =>
+  withRequestContext(event.headers, async currentSpan => {
+    const response = await handleRequest(event, currentSpan);
+    return { ...response, headers: { ...response.headers, ...corsHeaders(getHeader(event, 'origin')) } };
+  });
+
+/**
+ * Dispatch a request to its route
+ * Answers CORS preflight requests for the methods of the path, and 404 or 405 when no route takes the request.
+ * Without authentication the session routes are not found, so anonymous visitors cannot see each other's sessions.
+ * @param event - Function URL or API Gateway event
+ * @param currentSpan - The span representing the request
+ * @returns API Gateway response
+ */
+async function handleRequest(event: HttpEvent, currentSpan: api.Span): Promise<APIGatewayProxyResult> {
+  const { method, path } = getRequestLine(event);
+  const routes = getAuthConfig() ? ROUTES : ROUTES.filter(route => !route.signedIn);
+  const match = findRoute(routes, method, path);
+  if (!match) {
+    return errorResponse(404, { error: `Not found: ${path}`, code: 'not_found' });
+  }
+  if ('allowedMethods' in match) {
+    if (method === 'OPTIONS') {
+      return preflight(getHeader(event, 'origin'), match.allowedMethods);
+    }
+    return errorResponse(405, { error: `Method not allowed: ${method}`, code: 'method_not_allowed' }, {
+      Allow: match.allowedMethods.join(', ')
+    });
+  }
+  
+  // Sessions belong to the verified user, or to the anonymous owner when authentication is off
+  let owner = ANONYMOUS_OWNER;
+  if (!match.route.public) {
+    const identity = await identifyUser(event, currentSpan);
+    if ('error' in identity) {
+      return errorResponse(identity.statusCode, identity.error);
+    }
+    owner = identity.owner;
+  }
+  
+  try {
+    return await match.route.handler({ event, span: currentSpan, owner }, match.params);
+  } catch (error) {
+    console.error('Error processing request:', error);
+    currentSpan.recordException(error as Error);
+    currentSpan.setStatus({ code: api.SpanStatusCode.ERROR, message: (error as Error).message });
+    return errorResponse(500, { error: INTERNAL_ERROR, code: 'internal_error' });
+  }
+}
+
+/**
+ * Handle a chat request
+ * @param event - Function URL or API Gateway event
+ * @param currentSpan - The span representing the request
+ * @param owner - The user sending the message
+ * @returns API Gateway response
+ */
+async function handleChatRequest(event: HttpEvent, currentSpan: api.Span, owner: string): Promise<APIGatewayProxyResult> {
+  const subjects = quotaSubjects(owner, getClientIp(event));
+  
+  // Dimensions of the request metrics, filled in as the request progresses
+  const startTime = Date.now();
+  let metricModelId = 'unknown';
+  let outcome: RequestOutcome = 'error';
+  
+  try {
+    // Refuse the request before anything is spent when the user or IP address is over a quota
+    const exceeded = await enforceQuotas(currentSpan, subjects);
+    if (exceeded) {
+      outcome = 'rate_limited';
+      return tooManyRequests(exceeded);
+    }
+    
+    // Parse and check the request body
+    const body = parseChatRequest(event.body);
+    if ('error' in body) {
+      outcome = 'invalid';
+      return badRequest({ ...body, code: 'validation' });
+    }
+    
+    // Always generate a new session ID on the server if not provided
+    // This ensures session IDs are securely generated on the server side
+    const sessionId = body.sessionId || randomUUID();
+    
+    // Add session ID to the span
+    currentSpan.setAttribute('gen_ai.conversation.id', sessionId);
+    setLegacyAttribute(currentSpan, 'llm.session_id', sessionId);
+  
+    // History is rebuilt from DynamoDB; any history sent by the client is ignored
+    const { message } = body;
+    
+    // Resolve the model, prompt template, custom system prompt and inference settings
+    const options = resolveChatOptions(body);
+    if ('error' in options) {
+      outcome = 'invalid';
+      return badRequest(options, sessionId);
+    }
+    const { model } = options;
+    metricModelId = model.id;
+    
+    // Create user message
+    const userMessage: ChatMessage = {
+      id: randomUUID(),
+      sessionId,
+      timestamp: Date.now(),
+      role: 'user',
+      content: message
+    };
+    
+    // Load the history while the guardrail checks the user message; in speculative mode the model is called meanwhile too
+    const historyLoad = timeStage(currentSpan, 'history_load', () => loadOwnConversation(sessionId, owner));
+    let speculation = isSpeculativeModelCallEnabled()
+      ? startSpeculativeCall(currentSpan, subjects, historyLoad, userMessage, sessionId, options)
+      : undefined;
+    currentSpan.setAttribute('llm.speculative', !!speculation);
+    const [userGuardrailsResult, history] = await Promise.all([
+      timeStage(currentSpan, 'input_guardrail', () => checkGuardrails(message, 'INPUT', model.id)),
+      historyLoad
+    ]);
+    
+    // Sessions of other users are not found; nothing of them reaches the model
+    if (!history) {
+      if (speculation) {
+        await cancelSpeculativeCall(currentSpan, subjects, speculation, 'cancelled');
+      }
+      outcome = 'invalid';
+      return sessionNotFound(sessionId);
+    }
+    
+    // Check if user message is filtered, or could not be checked and input fails closed
+    if (isBlocked(userGuardrailsResult, 'INPUT')) {
+      if (speculation) {
+        await cancelSpeculativeCall(currentSpan, subjects, speculation, 'cancelled');
+      }
+      const unchecked = !isFiltered(userGuardrailsResult);
       const assistantRefusalMessage: ChatMessage = {
-        id: sessionId,
+        id: randomUUID(),
+        sessionId,
         timestamp: Date.now(),
         role: 'assistant',
-        content: 'Your message was filtered by content safety guardrails.'
+        content: inputRefusal(userGuardrailsResult)
       };
       
-
+      outcome = unchecked ? 'unavailable' : 'input_blocked';
       return {
-        statusCode: 400,
+        statusCode: unchecked ? 503 : 400,
         headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
+          error: assistantRefusalMessage.content,
+          code: unchecked ? 'upstream_error' : 'guardrail_blocked',
           message: assistantRefusalMessage,
           sessionId, // Always return the session ID to the client
-          guardrailsScores: {
-            harmful: userGuardrailsResult.contentFilterResults?.harmful?.score || 0,
-            hateful: userGuardrailsResult.contentFilterResults?.hateful?.score || 0,
-            sexual: userGuardrailsResult.contentFilterResults?.sexual?.score || 0,
-            toxic: userGuardrailsResult.contentFilterResults?.toxic?.score || 0
-          }
+          guardrailsScores: toGuardrailsScores(userGuardrailsResult),
+          guardrailStatus: getGuardrailStatus(userGuardrailsResult),
+          guardrailFindings: toGuardrailFindings(userGuardrailsResult),
+          ...toGuardrailLevels(userGuardrailsResult)
         })
       };
     }
-
-    // Store user message
-    await storeMessage(userMessage, sessionId);
     
-    // Get conversation history or use provided history
-    let messages = history.length > 0 ? history : await getSessionMessages(sessionId);
-    
-    // Add current user message if not in history
-    if (!messages.some((msg: ChatMessage) => msg.content === message && msg.role === 'user')) {
-      messages.push(userMessage);
+    // Store and send the message as the guardrail masked it (e.g. anonymized PII)
+    userMessage.content = maskedContent(userGuardrailsResult, message);
+    // A speculative reply was generated from the message before masking, so it cannot be used
+    if (speculation && guardrailOutput(userGuardrailsResult) !== undefined) {
+      await cancelSpeculativeCall(currentSpan, subjects, speculation, 'discarded');
+      speculation = undefined;
+    }
+
+    const conversation = await timeStage(currentSpan, 'store_message', () => startTurn(userMessage, sessionId, owner, history));
+    if (!conversation) {
+      if (speculation) {
+        await cancelSpeculativeCall(currentSpan, subjects, speculation, 'cancelled');
+      }
+      outcome = 'conflict';
+      return conflict(sessionId);
     }
     
-    // Invoke model
-    const modelResponse = await invokeModel(modelId, messages);
+    // Fit the history into the model's token budget and invoke the model, unless the speculative call already did
+    if (speculation) {
+      currentSpan.setAttribute('llm.speculative.result', 'used');
+    }
+    const modelResponse = await (speculation?.response ?? timeStage(currentSpan, 'model', async () =>
+      invokeModel(await prepareModelRequest(currentSpan, subjects, conversation, sessionId, options))));
     
     // Apply guardrails to model response
-    const modelGuardrailsResult = await tracer.startActiveSpan('Guardrails-OUTPUT', async (span : api.Span) => {
-      span.setAttribute('guardrails.id', GUARDRAIL_ID);
-      span.setAttribute('guardrails.version', GUARDRAIL_VERSION);
-      const result = await applyGuardrails(modelResponse, 'OUTPUT');
-      const totalScore = Object.values(result.contentFilterResults || {}).reduce((acc, filter) => acc + (filter.score || 0), 0);
-      if (totalScore > 0) {
-        span.setStatus({ code: api.SpanStatusCode.ERROR, message: 'User message filtered' });
-        span.setAttribute('guardrails.output', modelResponse);
-      }
-      span.end();
-      return result;
-    })
+    const modelGuardrailsResult = await timeStage(currentSpan, 'output_guardrail', () =>
+      checkGuardrails(modelResponse.content, 'OUTPUT', model.id));
+    const isModelResponseFiltered = isBlocked(modelGuardrailsResult, 'OUTPUT');
   
-    // Check if model response is filtered
-    const isModelResponseFiltered = Object.values(modelGuardrailsResult.contentFilterResults || {})
-      .some(filter => filter.filtered === true);
-    
     // Create assistant message
     const assistantMessage: ChatMessage = {
-      id: sessionId,
+      id: randomUUID(),
+      sessionId,
       timestamp: Date.now(),
       role: 'assistant',
-      content: isModelResponseFiltered ? 
-        "I'm sorry, but I cannot provide a response to that query as it may contain inappropriate content." : 
-        modelResponse
+      content: isModelResponseFiltered
+        ? outputRefusal(modelGuardrailsResult)
+        : maskedContent(modelGuardrailsResult, modelResponse.content),
+      modelId: modelResponse.model.id,
+      usage: modelResponse.usage
     };
     
-    // Store assistant message
-    await storeMessage(assistantMessage, sessionId);
+    // Store assistant message and add its cost to the session; both update the session item, so one after the other,
+    // while the tokens are counted against the quotas in their own table
+    const cost = await timeStage(currentSpan, 'store_reply', async () => {
+      await finishTurn(assistantMessage, sessionId, conversation.version, owner);
+      const [sessionCost] = await Promise.all([
+        trackCost(currentSpan, sessionId, modelResponse.model.id, modelResponse.usage),
+        trackTokenUse(currentSpan, subjects, modelResponse.usage)
+      ]);
+      return sessionCost;
+    });
       
     // Return response
+    outcome = isModelResponseFiltered ? 'output_blocked' : 'success';
     return {
       statusCode: 200,
       headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         message: assistantMessage,
         sessionId, // Always return the session ID to the client
-        guardrailsScores: {
-          harmful: modelGuardrailsResult.contentFilterResults?.harmful?.score || 0,
-          hateful: modelGuardrailsResult.contentFilterResults?.hateful?.score || 0,
-          sexual: modelGuardrailsResult.contentFilterResults?.sexual?.score || 0,
-          toxic: modelGuardrailsResult.contentFilterResults?.toxic?.score || 0
-        }
+        guardrailsScores: toGuardrailsScores(modelGuardrailsResult),
+        guardrailStatus: getGuardrailStatus(userGuardrailsResult, modelGuardrailsResult),
+        guardrailFindings: toGuardrailFindings(userGuardrailsResult, modelGuardrailsResult),
+        ...toGuardrailLevels(userGuardrailsResult, modelGuardrailsResult),
+        cost
       })
     };
   } catch (error) {
@@ -443,16 +2022,350 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     currentSpan.recordException(error as Error);
     currentSpan.setStatus({ code: api.SpanStatusCode.ERROR, message: (error as Error).message });
     
-    return {
-      statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
+    const failure = describeFailure(error);
+    if (failure.statusCode === 503) {
+      outcome = 'unavailable';
+    }
+    return errorResponse(failure.statusCode, failure.body);
+  } finally {
+    recordRequest(metricModelId, outcome, Date.now() - startTime, false);
+  }
+}
+
+/**
+ * Open the response stream with HTTP status and headers
+ * Outside the Lambda runtime (e.g. in tests) the stream is returned as is
+ * @param responseStream - The Lambda response stream
+ * @param statusCode - HTTP status code
+ * @param headers - Headers to send besides the content type
+ * @returns Stream to write events to
+ */
+function openResponseStream(responseStream: Writable, statusCode: number, headers: Record<string, string> = {}): Writable {
+  const metadata = {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      ...headers
+    }
+  };
+  return HAS_STREAMING_RUNTIME ? awslambda.HttpResponseStream.from(responseStream, metadata) : responseStream;
+}
+
+/**
+ * Write an event to the response stream as a line of newline-delimited JSON
+ * @param stream - The response stream
+ * @param streamEvent - The event to write
+ */
+function writeStreamEvent(stream: Writable, streamEvent: ChatStreamEvent): void {
+  stream.write(JSON.stringify(streamEvent) + '\n');
+}
+
+/**
+ * Write an error event to the response stream
+ * @param stream - The response stream
+ * @param error - The error
+ */
+function writeStreamError(stream: Writable, error: ApiError): void {
+  writeStreamEvent(stream, { type: 'error', message: error.error, ...error });
+}
+
+/**
+ * Streaming chat handler
+ * Forwards model tokens as `delta` events and finishes with a `done` event holding the stored assistant
+ * message. Tokens are held back until output guardrails have checked them: the guardrails run on every
+ * STREAM_GUARDRAIL_WINDOW characters and cut the stream off when a window is filtered, so no text of a
+ * filtered window reaches the client; the `done` message then carries the refusal instead. Once a window
+ * was masked, the rest of the response is sent masked at the end.
+ * @param event - Function URL event
+ * @param responseStream - The Lambda response stream
+ */
+export async function streamChat(event: HttpEvent, responseStream: Writable): Promise<void> {
+  return withRequestContext(event.headers, currentSpan => streamChatResponse(event, responseStream, currentSpan));
+}
+
+/**
+ * Handle a streaming chat request
+ * @param event - Function URL event
+ * @param responseStream - The Lambda response stream
+ * @param currentSpan - The span representing the request
+ */
+async function streamChatResponse(event: HttpEvent, responseStream: Writable, currentSpan: api.Span): Promise<void> {
+  let stream: Writable | undefined;
+  const origin = getHeader(event, 'origin');
+  const open = (statusCode: number, headers: Record<string, string> = {}): Writable =>
+    openResponseStream(responseStream, statusCode, { ...corsHeaders(origin), ...headers });
+  
+  // The streaming function URL only takes chat messages
+  const { method } = getRequestLine(event);
+  if (method !== 'POST') {
+    if (method === 'OPTIONS') {
+      open(204, preflightHeaders(origin, ['POST'])).end();
+      return;
+    }
+    stream = open(405, { Allow: 'POST' });
+    writeStreamError(stream, { error: `Method not allowed: ${method}`, code: 'method_not_allowed' });
+    stream.end();
+    return;
+  }
+  
+  const identity = await identifyUser(event, currentSpan);
+  if ('error' in identity) {
+    stream = open(identity.statusCode);
+    writeStreamError(stream, identity.error);
+    stream.end();
+    return;
+  }
+  const { owner } = identity;
+  const subjects = quotaSubjects(owner, getClientIp(event));
+  
+  // Dimensions of the request metrics, filled in as the request progresses
+  const startTime = Date.now();
+  let metricModelId = 'unknown';
+  let outcome: RequestOutcome = 'error';
+  
+  try {
+    const exceeded = await enforceQuotas(currentSpan, subjects);
+    if (exceeded) {
+      outcome = 'rate_limited';
+      const { error, headers } = describeQuotaExceeded(exceeded);
+      stream = open(429, headers);
+      writeStreamError(stream, { error, code: 'throttled', quota: exceeded });
+      return;
+    }
+    
+    // Parse and check the request body
+    const body = parseChatRequest(event.body);
+    if ('error' in body) {
+      outcome = 'invalid';
+      stream = open(400);
+      writeStreamError(stream, { ...body, code: 'validation' });
+      return;
+    }
+    const sessionId = body.sessionId || randomUUID();
+    currentSpan.setAttribute('gen_ai.conversation.id', sessionId);
+    setLegacyAttribute(currentSpan, 'llm.session_id', sessionId);
+  
+    // History is rebuilt from DynamoDB; any history sent by the client is ignored
+    const { message } = body;
+    
+    const options = resolveChatOptions(body, true);
+    if ('error' in options) {
+      outcome = 'invalid';
+      stream = open(400);
+      writeStreamError(stream, { ...options, sessionId });
+      return;
+    }
+    const { model } = options;
+    metricModelId = model.id;
+    
+    const userMessage: ChatMessage = {
+      id: randomUUID(),
+      sessionId,
+      timestamp: Date.now(),
+      role: 'user',
+      content: message
+    };
+    
+    // Apply guardrails to user message before anything is streamed, loading the history meanwhile
+    const [userGuardrailsResult, history] = await Promise.all([
+      timeStage(currentSpan, 'input_guardrail', () => checkGuardrails(message, 'INPUT', model.id)),
+      timeStage(currentSpan, 'history_load', () => loadOwnConversation(sessionId, owner))
+    ]);
+    if (!history) {
+      outcome = 'invalid';
+      stream = open(404);
+      writeStreamError(stream, { error: `Session not found: ${sessionId}`, code: 'not_found', sessionId });
+      return;
+    }
+    if (isBlocked(userGuardrailsResult, 'INPUT')) {
+      const unchecked = !isFiltered(userGuardrailsResult);
+      outcome = unchecked ? 'unavailable' : 'input_blocked';
+      stream = open(unchecked ? 503 : 400);
+      writeStreamEvent(stream, {
+        type: 'done',
+        cutOff: false,
+        response: {
+          message: {
+            id: randomUUID(),
+            sessionId,
+            timestamp: Date.now(),
+            role: 'assistant',
+            content: inputRefusal(userGuardrailsResult)
+          },
+          sessionId,
+          guardrailsScores: toGuardrailsScores(userGuardrailsResult),
+          guardrailStatus: getGuardrailStatus(userGuardrailsResult),
+          guardrailFindings: toGuardrailFindings(userGuardrailsResult),
+          ...toGuardrailLevels(userGuardrailsResult)
+        }
+      });
+      return;
+    }
+    userMessage.content = maskedContent(userGuardrailsResult, message);
+
+    const conversation = await timeStage(currentSpan, 'store_message', () => startTurn(userMessage, sessionId, owner, history));
+    if (!conversation) {
+      outcome = 'conflict';
+      stream = open(409);
+      writeStreamError(stream, { error: CONFLICT_MESSAGE, code: 'conflict', sessionId });
+      return;
+    }
+    const modelRequest = await prepareModelRequest(currentSpan, subjects, conversation, sessionId, options);
+    
+    let modelResponse = '';
+    // Deltas received from the model that were not sent yet, and the length of the text sent
+    const pendingDeltas: string[] = [];
+    let sentLength = 0;
+    let checkedLength = 0;
+    let windowStart = 0;
+    let modelGuardrailsResult: GuardrailsResult | undefined;
+    // Every window is kept, so one that could not be checked is reported even if later ones were clean
+    const windowResults: GuardrailsResult[] = [];
+    
+    // Check the text streamed since the last check, including a small overlap with the previous window
+    const checkWindow = async (): Promise<boolean> => {
+      windowStart = Math.max(0, checkedLength - STREAM_GUARDRAIL_OVERLAP);
+      checkedLength = modelResponse.length;
+      modelGuardrailsResult = await checkGuardrails(modelResponse.slice(windowStart), 'OUTPUT', model.id);
+      windowResults.push(modelGuardrailsResult);
+      return isBlocked(modelGuardrailsResult, 'OUTPUT');
+    };
+    
+    const masked = () => windowResults.some(result => guardrailOutput(result) !== undefined);
+    
+    // Send the held back deltas that end within the given length of the response
+    const release = (upTo: number) => {
+      while (pendingDeltas.length > 0 && sentLength + pendingDeltas[0].length <= upTo) {
+        const text = pendingDeltas.shift()!;
+        sentLength += text.length;
+        writeStreamEvent(stream!, { type: 'delta', text });
+      }
+    };
+    
+    let cutOff = false;
+    let answeringModel = model;
+    let usage: UsageCost | undefined;
+    const callbacks: ModelStreamCallbacks = {
+      onModel: fallbackModel => {
+        answeringModel = fallbackModel;
       },
-      body: JSON.stringify({
-        error: 'An error occurred while processing your request',
-        message: (error as Error).message
-      })
+      onUsage: streamUsage => {
+        usage = streamUsage;
+      }
+    };
+    // The stream is opened once the model answers, so a model that cannot answer still gets an error status.
+    // The usage is reported at the end of the stream, so a stream cut off or broken off reports none and is estimated.
+    const streamUsage = () => usage ?? estimateUsage(modelRequest, answeringModel, modelResponse);
+    await timeStage(currentSpan, 'model', async () => {
+      try {
+        for await (const text of streamModel(modelRequest, callbacks)) {
+          stream = stream || open(200);
+          modelResponse += text;
+          pendingDeltas.push(text);
+          if (modelResponse.length - checkedLength >= STREAM_GUARDRAIL_WINDOW) {
+            if (await checkWindow()) {
+              cutOff = true;
+              break;
+            }
+            // The overlap is checked again with the next window, so a phrase split across windows is never sent.
+            // Once a window was masked, the rest is held back until the masked text of the whole response is known.
+            if (!masked()) {
+              release(checkedLength - STREAM_GUARDRAIL_OVERLAP);
+            }
+          }
+        }
+      } catch (error) {
+        // The tokens generated before the stream broke off count against the quotas all the same
+        if (modelResponse) {
+          await trackTokenUse(currentSpan, subjects, streamUsage());
+        }
+        throw error;
+      }
+    });
+    
+    // When a window was masked, the full response is checked to get the masked text the final message
+    // carries; the rest after the last full window is then covered by that check
+    let assistantContent = modelResponse;
+    if (!cutOff && modelResponse.length > checkedLength && !masked()) {
+      cutOff = await timeStage(currentSpan, 'output_guardrail', checkWindow);
+    }
+    if (!cutOff && masked()) {
+      // A response that fit in one window was checked whole already
+      if (windowStart > 0 || checkedLength < modelResponse.length) {
+        modelGuardrailsResult = await timeStage(currentSpan, 'output_guardrail', () =>
+          checkGuardrails(modelResponse, 'OUTPUT', model.id));
+        windowResults.push(modelGuardrailsResult);
+        cutOff = isBlocked(modelGuardrailsResult, 'OUTPUT');
+      }
+      if (!cutOff && modelGuardrailsResult) {
+        assistantContent = maskedContent(modelGuardrailsResult, modelResponse);
+      }
+    }
+    currentSpan.setAttribute('llm.stream.cut_off', cutOff);
+    if (!cutOff && stream) {
+      if (!masked()) {
+        release(modelResponse.length);
+      } else if (assistantContent.length > sentLength && assistantContent.startsWith(modelResponse.slice(0, sentLength))) {
+        // The text sent so far passed unmasked, so the masked response continues it
+        writeStreamEvent(stream, { type: 'delta', text: assistantContent.slice(sentLength) });
+      }
+    }
+    
+    const replyUsage = streamUsage();
+    const assistantMessage: ChatMessage = {
+      id: randomUUID(),
+      sessionId,
+      timestamp: Date.now(),
+      role: 'assistant',
+      content: cutOff && modelGuardrailsResult ? outputRefusal(modelGuardrailsResult) : assistantContent,
+      modelId: answeringModel.id,
+      usage: replyUsage
     };
+    const cost = await timeStage(currentSpan, 'store_reply', async () => {
+      await finishTurn(assistantMessage, sessionId, conversation.version, owner);
+      const [sessionCost] = await Promise.all([
+        trackCost(currentSpan, sessionId, answeringModel.id, replyUsage),
+        trackTokenUse(currentSpan, subjects, replyUsage)
+      ]);
+      return sessionCost;
+    });
+    
+    stream = stream || open(200);
+    writeStreamEvent(stream, {
+      type: 'done',
+      cutOff,
+      response: {
+        message: assistantMessage,
+        sessionId,
+        guardrailsScores: toGuardrailsScores(modelGuardrailsResult),
+        guardrailStatus: getGuardrailStatus(userGuardrailsResult, ...windowResults),
+        guardrailFindings: toGuardrailFindings(userGuardrailsResult, ...windowResults),
+        ...toGuardrailLevels(userGuardrailsResult, ...windowResults),
+        cost
+      }
+    });
+    outcome = cutOff ? 'output_blocked' : 'success';
+  } catch (error) {
+    console.error('Error processing streaming request:', error);
+    
+    // Record the error in the span
+    currentSpan.recordException(error as Error);
+    currentSpan.setStatus({ code: api.SpanStatusCode.ERROR, message: (error as Error).message });
+    
+    const failure = describeFailure(error);
+    if (failure.statusCode === 503) {
+      outcome = 'unavailable';
+    }
+    // Headers can only be sent once, so a stream that already started keeps its 200 status
+    stream = stream || open(failure.statusCode);
+    writeStreamError(stream, failure.body);
+  } finally {
+    (stream || responseStream).end();
+    recordRequest(metricModelId, outcome, Date.now() - startTime, true);
   }
-};
+}
+
+/**
+ * Lambda handler for function URLs configured with RESPONSE_STREAM invoke mode
+ */
+export const streamHandler = HAS_STREAMING_RUNTIME ? awslambda.streamifyResponse(streamChat) : streamChat;
@@ -0,0 +1,67 @@
+import { ModelInfo } from './models';
+
+/**
+ * Inference settings the client may send with a chat request
+ */
+export interface InferenceSettings {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * Inference settings after defaults are applied
+ */
+export interface InferenceConfig {
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  stopSequences?: string[];
+}
+
+// Defaults used when the client does not send a setting
+const DEFAULT_INFERENCE_CONFIG: InferenceConfig = {
+  maxTokens: 1000,
+  temperature: 0.7,
+  topP: 0.9
+};
+
+// Longest stop sequence accepted, in characters
+const MAX_STOP_SEQUENCE_LENGTH = 100;
+
+/**
+ * Check the client's inference settings against the model's limits and apply defaults
+ * @param model - The model from the catalog
+ * @param settings - Inference settings from the request
+ * @returns The effective inference settings, or an error message describing the invalid setting
+ */
+export function resolveInferenceConfig(model: ModelInfo, settings: InferenceSettings = {}): InferenceConfig | { error: string } {
+  const { id: modelId, limits } = model;
+  const { maxTokens, temperature, topP, stopSequences } = settings;
+
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > limits.maxOutputTokens)) {
+    return { error: `maxTokens must be an integer between 1 and ${limits.maxOutputTokens} for ${modelId}` };
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > limits.maxTemperature)) {
+    return { error: `temperature must be between 0 and ${limits.maxTemperature} for ${modelId}` };
+  }
+  if (topP !== undefined && (typeof topP !== 'number' || topP < 0 || topP > 1)) {
+    return { error: 'topP must be between 0 and 1' };
+  }
+  if (stopSequences !== undefined) {
+    if (!Array.isArray(stopSequences) || stopSequences.length > limits.maxStopSequences) {
+      return { error: `stopSequences must be a list of at most ${limits.maxStopSequences} strings for ${modelId}` };
+    }
+    if (stopSequences.some(sequence => typeof sequence !== 'string' || !sequence || sequence.length > MAX_STOP_SEQUENCE_LENGTH)) {
+      return { error: `Each stop sequence must be a non-empty string of at most ${MAX_STOP_SEQUENCE_LENGTH} characters` };
+    }
+  }
+
+  return {
+    maxTokens: maxTokens ?? DEFAULT_INFERENCE_CONFIG.maxTokens,
+    temperature: temperature ?? DEFAULT_INFERENCE_CONFIG.temperature,
+    topP: topP ?? DEFAULT_INFERENCE_CONFIG.topP,
+    stopSequences: stopSequences && stopSequences.length > 0 ? stopSequences : undefined
+  };
+}
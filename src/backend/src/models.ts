@@ -0,0 +1,128 @@
+/**
+ * Limits on the inference parameters each model accepts
+ */
+export interface ModelLimits {
+  maxOutputTokens: number;
+  maxTemperature: number;
+  maxStopSequences: number;
+}
+
+/**
+ * On-demand price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  cacheReadPerMillionTokens: number;
+  cacheWritePerMillionTokens: number;
+}
+
+/**
+ * Features a model supports through the Converse API
+ */
+export interface ModelCapabilities {
+  streaming: boolean;
+  systemPrompt: boolean;
+  tools: boolean;
+}
+
+/**
+ * Entry of the model catalog
+ */
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow: number;
+  // Models tried, in order, when this one is throttled or unavailable
+  fallbackModelIds: string[];
+  pricing: ModelPricing;
+  capabilities: ModelCapabilities;
+  limits: ModelLimits;
+}
+
+// Models the backend allows clients to use; requests for any other model ID are rejected
+const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'us.anthropic.claude-3-7-sonnet-20250219-v1:0',
+    name: 'Claude (3.7)',
+    contextWindow: 200000,
+    fallbackModelIds: ['us.amazon.nova-pro-v1:0'],
+    pricing: {
+      inputPerMillionTokens: 3.0,
+      outputPerMillionTokens: 15.0,
+      cacheReadPerMillionTokens: 0.3,
+      cacheWritePerMillionTokens: 3.75
+    },
+    capabilities: { streaming: true, systemPrompt: true, tools: true },
+    limits: {
+      maxOutputTokens: 8192,
+      maxTemperature: 1,
+      maxStopSequences: 8
+    }
+  },
+  {
+    id: 'us.amazon.nova-pro-v1:0',
+    name: 'Amazon Nova (Pro)',
+    contextWindow: 300000,
+    fallbackModelIds: ['us.amazon.nova-lite-v1:0'],
+    pricing: {
+      inputPerMillionTokens: 0.8,
+      outputPerMillionTokens: 3.2,
+      cacheReadPerMillionTokens: 0.2,
+      cacheWritePerMillionTokens: 0
+    },
+    capabilities: { streaming: true, systemPrompt: true, tools: true },
+    limits: {
+      maxOutputTokens: 5000,
+      maxTemperature: 1,
+      maxStopSequences: 4
+    }
+  },
+  {
+    id: 'us.amazon.nova-lite-v1:0',
+    name: 'Amazon Nova (Lite)',
+    contextWindow: 300000,
+    fallbackModelIds: [],
+    pricing: {
+      inputPerMillionTokens: 0.06,
+      outputPerMillionTokens: 0.24,
+      cacheReadPerMillionTokens: 0.015,
+      cacheWritePerMillionTokens: 0
+    },
+    capabilities: { streaming: true, systemPrompt: true, tools: true },
+    limits: {
+      maxOutputTokens: 5000,
+      maxTemperature: 1,
+      maxStopSequences: 4
+    }
+  }
+];
+
+/**
+ * Get a model from the catalog
+ * @param modelId - The model ID
+ * @returns The model, or undefined if the model is not allowed
+ */
+export function getModel(modelId: string): ModelInfo | undefined {
+  return MODEL_CATALOG.find(model => model.id === modelId);
+}
+
+/**
+ * List the models clients may use
+ * @returns Model catalog
+ */
+export function listModels(): ModelInfo[] {
+  return [...MODEL_CATALOG];
+}
+
+/**
+ * Get a model followed by the catalog models it falls back to
+ * @param model - The requested model
+ * @returns The fallback chain, starting with the requested model
+ */
+export function getFallbackChain(model: ModelInfo): ModelInfo[] {
+  const fallbacks = model.fallbackModelIds
+    .map(getModel)
+    .filter((fallback): fallback is ModelInfo => !!fallback && fallback.id !== model.id);
+  return [model, ...fallbacks];
+}
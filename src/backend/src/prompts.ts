@@ -0,0 +1,36 @@
+/**
+ * Named system prompt templates kept on the server
+ * Bump the version whenever the text changes so traces show which wording produced an answer.
+ */
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  description: string;
+  text: string;
+}
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'assistant',
+    version: '1',
+    description: 'General purpose assistant',
+    text: 'You are a helpful assistant. Answer concisely and use Markdown for formatting when it helps readability.'
+  },
+  {
+    id: 'observability-expert',
+    version: '1',
+    description: 'Answers questions about observability on AWS',
+    text: 'You are an expert in observability for applications running on AWS, including OpenTelemetry, '
+      + 'AWS X-Ray, Amazon CloudWatch and AWS Application Signals. Give practical, step-by-step guidance '
+      + 'and say so when a question is outside this area.'
+  }
+];
+
+/**
+ * Get a prompt template by ID
+ * @param id - The template ID
+ * @returns The template, or undefined if there is no template with that ID
+ */
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(template => template.id === id);
+}
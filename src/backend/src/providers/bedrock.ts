@@ -0,0 +1,36 @@
+import {
+  BedrockRuntimeClient,
+  ConverseCommand,
+  ConverseStreamCommand,
+  ApplyGuardrailCommand,
+  ApplyGuardrailCommandInput,
+  ApplyGuardrailCommandOutput,
+  ConverseCommandInput,
+  ConverseCommandOutput,
+  ConverseStreamCommandInput,
+  ConverseStreamCommandOutput
+} from '@aws-sdk/client-bedrock-runtime';
+import { ModelProvider } from './types';
+
+/**
+ * Model provider backed by Amazon Bedrock Runtime
+ */
+export class BedrockModelProvider implements ModelProvider {
+  private readonly client: BedrockRuntimeClient;
+
+  constructor(client: BedrockRuntimeClient = new BedrockRuntimeClient()) {
+    this.client = client;
+  }
+
+  converse(input: ConverseCommandInput, abortSignal?: AbortSignal): Promise<ConverseCommandOutput> {
+    return this.client.send(new ConverseCommand(input), { abortSignal });
+  }
+
+  converseStream(input: ConverseStreamCommandInput, abortSignal?: AbortSignal): Promise<ConverseStreamCommandOutput> {
+    return this.client.send(new ConverseStreamCommand(input), { abortSignal });
+  }
+
+  applyGuardrail(input: ApplyGuardrailCommandInput): Promise<ApplyGuardrailCommandOutput> {
+    return this.client.send(new ApplyGuardrailCommand(input));
+  }
+}
@@ -0,0 +1,32 @@
+import { BedrockModelProvider } from './bedrock';
+import { MockModelProvider } from './mock';
+import { ModelProvider } from './types';
+
+export type { ModelProvider } from './types';
+export { BedrockModelProvider } from './bedrock';
+export { MockModelProvider } from './mock';
+export type { MockReply, MockGuardrailVerdict, MockOperation } from './mock';
+
+// Provider used by the handler: 'bedrock' (default) or 'mock' for running without AWS
+const MODEL_PROVIDER = process.env.MODEL_PROVIDER || 'bedrock';
+
+let activeProvider: ModelProvider | undefined;
+
+/**
+ * Get the active model provider, creating it from MODEL_PROVIDER on first use
+ * @returns Model provider
+ */
+export function getModelProvider(): ModelProvider {
+  if (!activeProvider) {
+    activeProvider = MODEL_PROVIDER === 'mock' ? new MockModelProvider() : new BedrockModelProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active model provider (e.g. with a scripted mock in tests)
+ * @param provider - The provider to use, or undefined to fall back to MODEL_PROVIDER
+ */
+export function setModelProvider(provider?: ModelProvider): void {
+  activeProvider = provider;
+}
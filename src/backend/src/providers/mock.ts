@@ -0,0 +1,292 @@
+import {
+  ApplyGuardrailCommandInput,
+  ApplyGuardrailCommandOutput,
+  ConverseCommandInput,
+  ConverseCommandOutput,
+  ConverseStreamCommandInput,
+  ConverseStreamCommandOutput,
+  ConverseStreamOutput,
+  GuardrailAction,
+  GuardrailAssessment,
+  GuardrailContentFilter,
+  GuardrailContentPolicyAction,
+  GuardrailSensitiveInformationPolicyAction,
+  Message,
+  StopReason,
+  ThrottlingException,
+  TokenUsage
+} from '@aws-sdk/client-bedrock-runtime';
+import { ModelProvider } from './types';
+
+/**
+ * Scripted model reply
+ */
+export interface MockReply {
+  text: string;
+  stopReason?: StopReason;
+}
+
+/**
+ * Scripted guardrail verdict: the content filter findings to report, and those of the other policies
+ */
+export interface MockGuardrailVerdict {
+  filters: GuardrailContentFilter[];
+  policies?: Omit<GuardrailAssessment, 'contentPolicy'>;
+}
+
+export type MockOperation = 'converse' | 'converseStream' | 'applyGuardrail';
+
+/**
+ * Deterministic in-process model provider for local runs and offline tests
+ * - Replies are taken from a script in order; without one, the last user message is echoed back
+ * - Guardrail verdicts are scripted per source; without one, nothing is detected
+ * - Errors (e.g. throttling) can be injected for the next calls of an operation
+ * - Each operation can be given a latency, e.g. to measure how much the handler overlaps calls
+ * Every request is recorded in `calls` so tests can assert on what the handler sent.
+ */
+export class MockModelProvider implements ModelProvider {
+  readonly calls: { operation: MockOperation; input: ConverseCommandInput | ApplyGuardrailCommandInput }[] = [];
+
+  private readonly replies: MockReply[] = [];
+  private readonly verdicts: Record<'INPUT' | 'OUTPUT', MockGuardrailVerdict[]> = { INPUT: [], OUTPUT: [] };
+  private readonly errors: Record<MockOperation, Error[]> = { converse: [], converseStream: [], applyGuardrail: [] };
+  private readonly latencies: Record<MockOperation, number> = { converse: 0, converseStream: 0, applyGuardrail: 0 };
+
+  /**
+   * @param chunkSize - Number of words sent in each streamed delta
+   */
+  constructor(private readonly chunkSize: number = 1) {}
+
+  /**
+   * Queue replies returned by the next model calls
+   * @param replies - Reply texts or reply objects
+   * @returns This provider for chaining
+   */
+  scriptReply(...replies: (string | MockReply)[]): this {
+    this.replies.push(...replies.map(reply => typeof reply === 'string' ? { text: reply } : reply));
+    return this;
+  }
+
+  /**
+   * Queue guardrail verdicts returned by the next guardrail calls for a source
+   * @param source - The source of the content ('INPUT' or 'OUTPUT')
+   * @param verdicts - Guardrail verdicts
+   * @returns This provider for chaining
+   */
+  scriptGuardrail(source: 'INPUT' | 'OUTPUT', ...verdicts: MockGuardrailVerdict[]): this {
+    this.verdicts[source].push(...verdicts);
+    return this;
+  }
+
+  /**
+   * Queue errors thrown by the next calls of an operation
+   * @param operation - The operation to fail
+   * @param errors - Errors to throw, one per call
+   * @returns This provider for chaining
+   */
+  injectError(operation: MockOperation, ...errors: Error[]): this {
+    this.errors[operation].push(...errors);
+    return this;
+  }
+
+  /**
+   * Queue throttling errors thrown by the next calls of an operation
+   * @param operation - The operation to throttle
+   * @param times - Number of calls to throttle
+   * @returns This provider for chaining
+   */
+  injectThrottling(operation: MockOperation, times: number = 1): this {
+    for (let i = 0; i < times; i++) {
+      this.injectError(operation, new ThrottlingException({ message: 'Too many requests, please wait before trying again.', $metadata: {} }));
+    }
+    return this;
+  }
+
+  /**
+   * Make every call of an operation take a while before it answers
+   * @param operation - The operation to slow down
+   * @param latencyMs - Delay in milliseconds
+   * @returns This provider for chaining
+   */
+  setLatency(operation: MockOperation, latencyMs: number): this {
+    this.latencies[operation] = latencyMs;
+    return this;
+  }
+
+  async converse(input: ConverseCommandInput, abortSignal?: AbortSignal): Promise<ConverseCommandOutput> {
+    this.record('converse', input);
+    await this.wait('converse', abortSignal);
+    const reply = this.nextReply(input.messages || []);
+    return {
+      $metadata: {},
+      output: {
+        message: { role: 'assistant', content: [{ text: reply.text }] }
+      },
+      stopReason: reply.stopReason || StopReason.END_TURN,
+      usage: estimateUsage(input.messages || [], reply.text),
+      metrics: { latencyMs: 0 }
+    };
+  }
+
+  async converseStream(input: ConverseStreamCommandInput, abortSignal?: AbortSignal): Promise<ConverseStreamCommandOutput> {
+    this.record('converseStream', input);
+    await this.wait('converseStream', abortSignal);
+    const reply = this.nextReply(input.messages || []);
+    const chunks = splitWords(reply.text, this.chunkSize);
+    const usage = estimateUsage(input.messages || [], reply.text);
+
+    async function* events(): AsyncGenerator<ConverseStreamOutput> {
+      yield { messageStart: { role: 'assistant' } };
+      for (const text of chunks) {
+        if (abortSignal?.aborted) {
+          return;
+        }
+        yield { contentBlockDelta: { contentBlockIndex: 0, delta: { text } } };
+      }
+      yield { contentBlockStop: { contentBlockIndex: 0 } };
+      yield { messageStop: { stopReason: reply.stopReason || StopReason.END_TURN } };
+      yield { metadata: { usage, metrics: { latencyMs: 0 } } };
+    }
+
+    return { $metadata: {}, stream: events() };
+  }
+
+  async applyGuardrail(input: ApplyGuardrailCommandInput): Promise<ApplyGuardrailCommandOutput> {
+    this.record('applyGuardrail', input);
+    await this.wait('applyGuardrail');
+    const source = input.source === 'OUTPUT' ? 'OUTPUT' : 'INPUT';
+    const { filters, policies } = this.verdicts[source].shift() || { filters: [] };
+    const assessment: GuardrailAssessment = { ...policies, contentPolicy: { filters } };
+    const actions = policyActions(assessment);
+    const blocked = actions.includes(GuardrailContentPolicyAction.BLOCKED);
+    const masked = !blocked && actions.includes(GuardrailSensitiveInformationPolicyAction.ANONYMIZED);
+    const text = (input.content || []).map(block => block.text?.text || '').join('');
+    return {
+      $metadata: {},
+      action: blocked || masked ? GuardrailAction.GUARDRAIL_INTERVENED : GuardrailAction.NONE,
+      outputs: blocked ? [{ text: 'Sorry, the model cannot answer this question.' }] : masked ? [{ text: maskText(text, assessment) }] : [],
+      assessments: [assessment],
+      usage: {
+        topicPolicyUnits: 0,
+        contentPolicyUnits: 1,
+        wordPolicyUnits: 0,
+        sensitiveInformationPolicyUnits: 0,
+        sensitiveInformationPolicyFreeUnits: 0,
+        contextualGroundingPolicyUnits: 0
+      }
+    };
+  }
+
+  /**
+   * Record a call and throw the next injected error for the operation, if any
+   */
+  private record(operation: MockOperation, input: ConverseCommandInput | ApplyGuardrailCommandInput): void {
+    this.calls.push({ operation, input });
+    const error = this.errors[operation].shift();
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the latency of an operation, failing like the SDK does if the call is aborted meanwhile
+   */
+  private wait(operation: MockOperation, abortSignal?: AbortSignal): Promise<void> {
+    const abortError = () => Object.assign(new Error('Request aborted'), { name: 'AbortError' });
+    if (abortSignal?.aborted) {
+      return Promise.reject(abortError());
+    }
+    const latencyMs = this.latencies[operation];
+    if (latencyMs <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, latencyMs);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Take the next scripted reply, or echo the last user message
+   */
+  private nextReply(messages: Message[]): MockReply {
+    const reply = this.replies.shift();
+    if (reply) {
+      return reply;
+    }
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    return { text: `Mock reply to: ${lastUserMessage?.content?.[0]?.text || ''}` };
+  }
+}
+
+/**
+ * List the actions taken by every policy of an assessment
+ * @param assessment - The guardrail assessment
+ * @returns Actions, such as BLOCKED or ANONYMIZED
+ */
+function policyActions(assessment: GuardrailAssessment): (string | undefined)[] {
+  return [
+    ...(assessment.contentPolicy?.filters || []),
+    ...(assessment.topicPolicy?.topics || []),
+    ...(assessment.wordPolicy?.customWords || []),
+    ...(assessment.wordPolicy?.managedWordLists || []),
+    ...(assessment.sensitiveInformationPolicy?.piiEntities || []),
+    ...(assessment.sensitiveInformationPolicy?.regexes || []),
+    ...(assessment.contextualGroundingPolicy?.filters || [])
+  ].map(finding => finding.action);
+}
+
+/**
+ * Mask the anonymized sensitive information of an assessment the way Bedrock Guardrails does,
+ * replacing each match with the entity type or regex name in braces
+ * @param text - The checked text
+ * @param assessment - The guardrail assessment
+ * @returns Masked text
+ */
+function maskText(text: string, assessment: GuardrailAssessment): string {
+  const policy = assessment.sensitiveInformationPolicy;
+  const masks = [
+    ...(policy?.piiEntities || []).map(entity => ({ match: entity.match, action: entity.action, tag: entity.type })),
+    ...(policy?.regexes || []).map(regex => ({ match: regex.match, action: regex.action, tag: regex.name }))
+  ];
+  return masks.reduce((masked, { match, action, tag }) =>
+    match && action === GuardrailSensitiveInformationPolicyAction.ANONYMIZED ? masked.split(match).join(`{${tag}}`) : masked, text);
+}
+
+/**
+ * Split text into chunks of whole words, keeping the whitespace so the chunks join back exactly
+ * @param text - The text to split
+ * @param wordsPerChunk - Number of words in each chunk
+ * @returns Text chunks
+ */
+function splitWords(text: string, wordsPerChunk: number): string[] {
+  const words = text.match(/\s*\S+\s*/g) || [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerChunk) {
+    chunks.push(words.slice(i, i + wordsPerChunk).join(''));
+  }
+  return chunks;
+}
+
+/**
+ * Estimate token usage at roughly four characters per token
+ * @param messages - The conversation sent to the model
+ * @param reply - The reply text
+ * @returns Token usage
+ */
+function estimateUsage(messages: Message[], reply: string): TokenUsage {
+  const promptLength = messages.reduce(
+    (acc, message) => acc + (message.content || []).reduce((sum, block) => sum + (block.text?.length || 0), 0),
+    0
+  );
+  const inputTokens = Math.ceil(promptLength / 4);
+  const outputTokens = Math.ceil(reply.length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
@@ -0,0 +1,38 @@
+import {
+  ApplyGuardrailCommandInput,
+  ApplyGuardrailCommandOutput,
+  ConverseCommandInput,
+  ConverseCommandOutput,
+  ConverseStreamCommandInput,
+  ConverseStreamCommandOutput
+} from '@aws-sdk/client-bedrock-runtime';
+
+/**
+ * Operations the backend needs from a model provider
+ * Requests and responses use the Bedrock Converse / ApplyGuardrail shapes so that
+ * the handler code is the same whichever provider is active.
+ */
+export interface ModelProvider {
+  /**
+   * Generate a complete response for the conversation
+   * @param input - Converse request
+   * @param abortSignal - Signal to cancel the call (e.g. a speculative call whose input was blocked)
+   * @returns Converse response
+   */
+  converse(input: ConverseCommandInput, abortSignal?: AbortSignal): Promise<ConverseCommandOutput>;
+
+  /**
+   * Generate a response for the conversation as a stream of events
+   * @param input - ConverseStream request
+   * @param abortSignal - Signal to stop the generation early
+   * @returns ConverseStream response
+   */
+  converseStream(input: ConverseStreamCommandInput, abortSignal?: AbortSignal): Promise<ConverseStreamCommandOutput>;
+
+  /**
+   * Evaluate content against a guardrail
+   * @param input - ApplyGuardrail request
+   * @returns ApplyGuardrail response
+   */
+  applyGuardrail(input: ApplyGuardrailCommandInput): Promise<ApplyGuardrailCommandOutput>;
+}
@@ -0,0 +1,235 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ANONYMOUS_OWNER } from './chat-table';
+
+/**
+ * Layout of the quota table
+ * Each user (`user#<user ID>`) and client IP address (`ip#<address>`) has a partition under the
+ * `subject` key. The sort key `sk` is `requests#<minute start>` for the request counter of a minute,
+ * `tokens#<day>` for the tokens used on a UTC day and `override` for limits an admin set for a user.
+ * Counters get a `ttl` at the end of their window, after which DynamoDB deletes them.
+ */
+
+export const OVERRIDE_SORT_KEY = 'override';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Who a quota applies to: a signed-in user or the IP address a request came from
+ */
+export type QuotaScope = 'user' | 'ip';
+
+/**
+ * What a quota limits: requests per minute or model tokens per UTC day
+ */
+export type QuotaName = 'requests' | 'tokens';
+
+/**
+ * Limits of a subject; 0 means unlimited
+ */
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+}
+
+export interface QuotaSubject {
+  scope: QuotaScope;
+  id: string;
+}
+
+/**
+ * A quota a request went over
+ */
+export interface QuotaExceeded {
+  scope: QuotaScope;
+  quota: QuotaName;
+  limit: number;
+  used: number;
+  // When the window of the quota ends, in milliseconds
+  resetAt: number;
+}
+
+// Limits applied when no override is set, by scope
+const DEFAULT_LIMITS: Record<QuotaScope, QuotaLimits> = {
+  user: { requestsPerMinute: 20, tokensPerDay: 200000 },
+  ip: { requestsPerMinute: 60, tokensPerDay: 500000 }
+};
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient());
+
+/**
+ * Get the quota table
+ * @returns QUOTA_TABLE_NAME, or undefined if quotas are not enforced
+ */
+export function getQuotaTableName(): string | undefined {
+  return process.env.QUOTA_TABLE_NAME || undefined;
+}
+
+/**
+ * Read a limit from an environment variable
+ * @param name - The variable name
+ * @param defaultValue - The limit when the variable is unset or invalid
+ * @returns A limit of 0 or more
+ */
+function readLimit(name: string, defaultValue: number): number {
+  const value = Number(process.env[name] ?? defaultValue);
+  return Number.isInteger(value) && value >= 0 ? value : defaultValue;
+}
+
+/**
+ * Get the limits applied to every subject of a scope
+ * Set by QUOTA_<SCOPE>_REQUESTS_PER_MINUTE and QUOTA_<SCOPE>_TOKENS_PER_DAY, e.g. QUOTA_IP_TOKENS_PER_DAY.
+ * @param scope - The scope
+ * @returns Default limits
+ */
+export function getDefaultLimits(scope: QuotaScope): QuotaLimits {
+  const prefix = `QUOTA_${scope.toUpperCase()}`;
+  return {
+    requestsPerMinute: readLimit(`${prefix}_REQUESTS_PER_MINUTE`, DEFAULT_LIMITS[scope].requestsPerMinute),
+    tokensPerDay: readLimit(`${prefix}_TOKENS_PER_DAY`, DEFAULT_LIMITS[scope].tokensPerDay)
+  };
+}
+
+/**
+ * List the subjects whose quotas a request counts against
+ * The anonymous owner is shared by everyone when authentication is off, so it only gets the IP quota.
+ * @param owner - The user sending the request
+ * @param ip - The client IP address, if known
+ * @returns Quota subjects, the user first
+ */
+export function quotaSubjects(owner: string, ip: string | undefined): QuotaSubject[] {
+  return [
+    ...(owner !== ANONYMOUS_OWNER ? [{ scope: 'user' as const, id: owner }] : []),
+    ...(ip ? [{ scope: 'ip' as const, id: ip }] : [])
+  ];
+}
+
+/**
+ * Partition key of a subject
+ * @param subject - The subject
+ * @returns Partition key value
+ */
+export function subjectKey(subject: QuotaSubject): string {
+  return `${subject.scope}#${subject.id}`;
+}
+
+/**
+ * Get the limits of a subject: the defaults of its scope, with any limits an admin set for the user
+ * @param table - The quota table
+ * @param subject - The subject
+ * @returns Limits
+ */
+async function getLimits(table: string, subject: QuotaSubject): Promise<QuotaLimits> {
+  const limits = getDefaultLimits(subject.scope);
+  if (subject.scope !== 'user') {
+    return limits;
+  }
+  const { Item: override } = await docClient.send(new GetCommand({
+    TableName: table,
+    Key: { subject: subjectKey(subject), sk: OVERRIDE_SORT_KEY }
+  }));
+  return {
+    requestsPerMinute: typeof override?.requestsPerMinute === 'number' ? override.requestsPerMinute : limits.requestsPerMinute,
+    tokensPerDay: typeof override?.tokensPerDay === 'number' ? override.tokensPerDay : limits.tokensPerDay
+  };
+}
+
+/**
+ * Get the window of a quota at a time
+ * @param quota - The quota
+ * @param now - The time, in milliseconds
+ * @returns Sort key of the window's counter and when the window ends
+ */
+function quotaWindow(quota: QuotaName, now: number): { sk: string; resetAt: number } {
+  if (quota === 'requests') {
+    const start = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    return { sk: `requests#${start}`, resetAt: start + MINUTE_MS };
+  }
+  const start = Math.floor(now / DAY_MS) * DAY_MS;
+  return { sk: `tokens#${new Date(start).toISOString().slice(0, 10)}`, resetAt: start + DAY_MS };
+}
+
+/**
+ * Add to the counter of a quota window
+ * @param table - The quota table
+ * @param subject - The subject
+ * @param quota - The quota
+ * @param amount - What to add
+ * @param now - The time, in milliseconds
+ * @returns The counter after the addition
+ */
+async function addToCounter(table: string, subject: QuotaSubject, quota: QuotaName, amount: number, now: number): Promise<number> {
+  const { sk, resetAt } = quotaWindow(quota, now);
+  const { Attributes } = await docClient.send(new UpdateCommand({
+    TableName: table,
+    Key: { subject: subjectKey(subject), sk },
+    UpdateExpression: 'SET #ttl = :ttl ADD used :amount',
+    ExpressionAttributeNames: { '#ttl': 'ttl' },
+    ExpressionAttributeValues: { ':ttl': Math.ceil(resetAt / 1000), ':amount': amount },
+    ReturnValues: 'UPDATED_NEW'
+  }));
+  return Attributes?.used ?? amount;
+}
+
+/**
+ * Read the counter of a quota window
+ * @param table - The quota table
+ * @param subject - The subject
+ * @param quota - The quota
+ * @param now - The time, in milliseconds
+ * @returns The counter
+ */
+async function readCounter(table: string, subject: QuotaSubject, quota: QuotaName, now: number): Promise<number> {
+  const { Item } = await docClient.send(new GetCommand({
+    TableName: table,
+    Key: { subject: subjectKey(subject), sk: quotaWindow(quota, now).sk }
+  }));
+  return Item?.used ?? 0;
+}
+
+/**
+ * Count a request against the quotas of its subjects and find the first quota it goes over
+ * The request is counted even when it is refused, so a client retrying in a loop stays limited.
+ * Tokens are only known once the model answered, so the token quota is checked against what was
+ * used before the request and a request can take a subject past it.
+ * @param subjects - The subjects of the request
+ * @param now - The time, in milliseconds
+ * @returns The quota gone over, or undefined if the request is within every quota
+ */
+export async function checkQuotas(subjects: QuotaSubject[], now: number = Date.now()): Promise<QuotaExceeded | undefined> {
+  const table = getQuotaTableName();
+  if (!table) {
+    return undefined;
+  }
+  const results = await Promise.all(subjects.map(async subject => {
+    const [limits, requests, tokens] = await Promise.all([
+      getLimits(table, subject),
+      addToCounter(table, subject, 'requests', 1, now),
+      readCounter(table, subject, 'tokens', now)
+    ]);
+    const exceeded: QuotaExceeded[] = [];
+    if (limits.requestsPerMinute > 0 && requests > limits.requestsPerMinute) {
+      exceeded.push({ scope: subject.scope, quota: 'requests', limit: limits.requestsPerMinute, used: requests, resetAt: quotaWindow('requests', now).resetAt });
+    }
+    if (limits.tokensPerDay > 0 && tokens >= limits.tokensPerDay) {
+      exceeded.push({ scope: subject.scope, quota: 'tokens', limit: limits.tokensPerDay, used: tokens, resetAt: quotaWindow('tokens', now).resetAt });
+    }
+    return exceeded;
+  }));
+  return results.flat()[0];
+}
+
+/**
+ * Count the tokens of a model call against the daily quotas of its subjects
+ * @param subjects - The subjects of the request
+ * @param tokens - Input and output tokens of the call
+ * @param now - The time, in milliseconds
+ */
+export async function consumeTokens(subjects: QuotaSubject[], tokens: number, now: number = Date.now()): Promise<void> {
+  const table = getQuotaTableName();
+  if (!table || tokens <= 0) {
+    return;
+  }
+  await Promise.all(subjects.map(subject => addToCounter(table, subject, 'tokens', tokens, now)));
+}
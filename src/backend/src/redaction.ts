@@ -0,0 +1,123 @@
+/**
+ * How much of the prompt and completion text is kept in spans, logs and DynamoDB
+ * - off: no text is kept
+ * - redacted: text is kept with personal data masked
+ * - full: text is kept as is
+ */
+export type ContentCapturePolicy = 'off' | 'redacted' | 'full';
+
+/**
+ * A kind of personal data to mask
+ */
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  replacement: string;
+  // Further check on a match, to tell e.g. card numbers from other long numbers
+  validate?: (match: string) => boolean;
+}
+
+const CONTENT_CAPTURE_POLICIES: ContentCapturePolicy[] = ['off', 'redacted', 'full'];
+
+/**
+ * Check a card number candidate with the Luhn checksum
+ * @param match - The matched digits, possibly separated by spaces or dashes
+ * @returns True if the checksum is valid
+ */
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Applied in order; card numbers go before phone numbers so their digit groups are not taken for a phone number
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[EMAIL]'
+  },
+  {
+    name: 'card',
+    pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    replacement: '[CARD]',
+    validate: isLuhnValid
+  },
+  {
+    name: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?!\w)/g,
+    replacement: '[PHONE]'
+  }
+];
+
+/**
+ * Get the content capture policy
+ * @returns The policy set by CONTENT_CAPTURE_POLICY, 'redacted' if it is unset or invalid
+ */
+export function getContentCapturePolicy(): ContentCapturePolicy {
+  const policy = process.env.CONTENT_CAPTURE_POLICY as ContentCapturePolicy;
+  return CONTENT_CAPTURE_POLICIES.includes(policy) ? policy : 'redacted';
+}
+
+/**
+ * Get the redaction rules: the defaults followed by the custom patterns in REDACTION_PATTERNS
+ * REDACTION_PATTERNS is a JSON array of regular expressions, e.g. ["EMP-\\d{6}"]; invalid patterns are skipped.
+ * @returns Redaction rules
+ */
+export function getRedactionRules(): RedactionRule[] {
+  const customRules: RedactionRule[] = [];
+  if (process.env.REDACTION_PATTERNS) {
+    try {
+      const patterns: unknown = JSON.parse(process.env.REDACTION_PATTERNS);
+      for (const pattern of Array.isArray(patterns) ? patterns : []) {
+        try {
+          customRules.push({ name: 'custom', pattern: new RegExp(String(pattern), 'g'), replacement: '[REDACTED]' });
+        } catch (error) {
+          console.error(`Skipping invalid redaction pattern ${pattern}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error parsing REDACTION_PATTERNS:', error);
+    }
+  }
+  return [...DEFAULT_REDACTION_RULES, ...customRules];
+}
+
+/**
+ * Mask personal data in text
+ * @param text - The text to redact
+ * @param rules - The redaction rules to apply
+ * @returns The text with every match replaced
+ */
+export function redact(text: string, rules: RedactionRule[] = getRedactionRules()): string {
+  return rules.reduce((redacted, rule) => redacted.replace(rule.pattern, match =>
+    !rule.validate || rule.validate(match) ? rule.replacement : match
+  ), text);
+}
+
+/**
+ * Apply the content capture policy to text about to be written to a span, a log or DynamoDB
+ * @param text - The prompt or completion text
+ * @param policy - The content capture policy
+ * @returns The text to keep, or undefined if no text may be kept
+ */
+export function captureContent(text: string, policy: ContentCapturePolicy = getContentCapturePolicy()): string | undefined {
+  switch (policy) {
+    case 'off':
+      return undefined;
+    case 'redacted':
+      return redact(text);
+    case 'full':
+      return text;
+  }
+}
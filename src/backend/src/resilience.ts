@@ -0,0 +1,288 @@
+import * as api from '@opentelemetry/api';
+import { ModelInfo } from './models';
+import { TRACE_NAME, recordModelFallback, recordModelRetry } from './telemetry';
+
+/**
+ * What to do after a failed call
+ * - retry: the failure is transient (throttling, a service error), try the same model again after a backoff
+ * - fallback: the model cannot serve the request (not enabled, out of quota), move on to the next model
+ * - fail: the request itself is at fault (e.g. validation), give up
+ */
+export type FailureAction = 'retry' | 'fallback' | 'fail';
+
+/**
+ * How often and how fast a failed call is retried
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Where a model call stands in the retry and fallback sequence
+ */
+export interface AttemptContext {
+  // Attempt on this model, starting at 1
+  attempt: number;
+  // Position of the model in the fallback chain, 0 for the requested model
+  fallbackIndex: number;
+  requestedModelId: string;
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+const RETRYABLE_ERRORS = [
+  'ThrottlingException',
+  'ServiceUnavailableException',
+  'InternalServerException',
+  'ModelNotReadyException',
+  'ModelTimeoutException'
+];
+
+const FALLBACK_ERRORS = [
+  'AccessDeniedException',
+  'ResourceNotFoundException',
+  'ServiceQuotaExceededException',
+  'ModelErrorException',
+  'ModelStreamErrorException',
+  'CircuitOpenError'
+];
+
+/**
+ * Thrown when the circuit breaker of every model in the fallback chain is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(modelIds: string[]) {
+    super(`No model available, circuit open for: ${modelIds.join(', ')}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Read a non-negative number from an environment variable
+ * @param name - The variable name
+ * @param defaultValue - Value used when the variable is unset or invalid
+ * @returns The number
+ */
+function readNumber(name: string, defaultValue: number): number {
+  const value = Number(process.env[name] ?? defaultValue);
+  return Number.isFinite(value) && value >= 0 ? value : defaultValue;
+}
+
+/**
+ * Get the retry policy of model and guardrail calls
+ * @returns The policy set by MODEL_MAX_ATTEMPTS (default 3), MODEL_RETRY_BASE_DELAY_MS (default 200)
+ * and MODEL_RETRY_MAX_DELAY_MS (default 2000)
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, readNumber('MODEL_MAX_ATTEMPTS', 3)),
+    baseDelayMs: readNumber('MODEL_RETRY_BASE_DELAY_MS', 200),
+    maxDelayMs: readNumber('MODEL_RETRY_MAX_DELAY_MS', 2000)
+  };
+}
+
+/**
+ * Compute the wait before the next attempt: exponential backoff with full jitter,
+ * so that Lambda instances throttled together do not retry together
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param policy - The retry policy
+ * @param random - Source of randomness between 0 and 1
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  return Math.floor(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)));
+}
+
+/**
+ * Decide what to do after a failed call
+ * @param error - The error thrown by the call
+ * @returns Failure action
+ */
+export function classifyFailure(error: unknown): FailureAction {
+  const name = error instanceof Error ? error.name : '';
+  if (RETRYABLE_ERRORS.includes(name) || (error as { $retryable?: unknown })?.$retryable) {
+    return 'retry';
+  }
+  return FALLBACK_ERRORS.includes(name) ? 'fallback' : 'fail';
+}
+
+/**
+ * Wait for a while
+ * @param ms - Delay in milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Circuit breaker of one model
+ * After CIRCUIT_BREAKER_FAILURES consecutive failed calls (default 5) the circuit opens and the model
+ * is skipped for CIRCUIT_BREAKER_COOLDOWN_MS (default 30000); then one trial call is let through,
+ * which closes the circuit again if it succeeds. State is kept per Lambda instance.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  /**
+   * Whether a call may be made now; moves an open circuit whose cooldown is over to half-open
+   * @param now - The current time in milliseconds
+   * @returns True if the call may be made
+   */
+  allowRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= readNumber('CIRCUIT_BREAKER_COOLDOWN_MS', 30000)) {
+      this.state = 'half_open';
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  /**
+   * Count a failed call, opening the circuit when there were too many in a row or a trial call failed
+   * @param now - The current time in milliseconds
+   */
+  recordFailure(now: number = Date.now()): void {
+    this.failures++;
+    if (this.state === 'half_open' || this.failures >= Math.max(1, readNumber('CIRCUIT_BREAKER_FAILURES', 5))) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the circuit breaker of a model
+ * @param modelId - The model ID
+ * @returns Circuit breaker
+ */
+export function getCircuitBreaker(modelId: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(modelId);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    circuitBreakers.set(modelId, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Forget the state of every circuit breaker (e.g. between tests)
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
+
+/**
+ * Retry a call on transient failures with jittered exponential backoff
+ * @param operation - The call, given the attempt number starting at 1
+ * @param onRetry - Called with the error before each retry
+ * @param policy - The retry policy
+ * @returns The result of the first successful attempt
+ */
+export async function withRetries<T>(
+  operation: (attempt: number) => Promise<T>,
+  onRetry?: (error: unknown, attempt: number) => void,
+  policy: RetryPolicy = getRetryPolicy()
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || classifyFailure(error) !== 'retry') {
+        throw error;
+      }
+      onRetry?.(error, attempt);
+      await sleep(backoffDelay(attempt, policy));
+    }
+  }
+}
+
+/**
+ * Call the first model of a fallback chain that answers
+ * Each model is retried on transient failures, then the next model is tried; models whose circuit
+ * is open are skipped. Calls on fallback models run inside a `fallback <model ID>` span, so every
+ * attempt and every fallback shows up in the trace.
+ * @param models - The requested model followed by its fallbacks
+ * @param call - Makes one attempt on a model
+ * @returns The result of the first successful attempt
+ */
+export async function callWithFallback<T>(
+  models: ModelInfo[],
+  call: (model: ModelInfo, context: AttemptContext) => Promise<T>
+): Promise<T> {
+  const policy = getRetryPolicy();
+  const requestedModelId = models[0].id;
+  const skipped: string[] = [];
+  let lastError: unknown;
+
+  for (const [fallbackIndex, model] of models.entries()) {
+    const breaker = getCircuitBreaker(model.id);
+    if (!breaker.allowRequest()) {
+      api.trace.getActiveSpan()?.addEvent('llm.circuit_breaker.open', { 'llm.model_id': model.id });
+      skipped.push(model.id);
+      continue;
+    }
+
+    const attemptModel = async (): Promise<T> => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await call(model, { attempt, fallbackIndex, requestedModelId });
+          breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          const action = classifyFailure(error);
+          if (action !== 'fail') {
+            breaker.recordFailure();
+          }
+          if (action !== 'retry' || attempt >= policy.maxAttempts || !breaker.allowRequest()) {
+            throw error;
+          }
+          recordModelRetry(model.id, error);
+          await sleep(backoffDelay(attempt, policy));
+        }
+      }
+    };
+
+    try {
+      if (fallbackIndex === 0) {
+        return await attemptModel();
+      }
+      recordModelFallback(requestedModelId, model.id);
+      return await api.trace.getTracer(TRACE_NAME).startActiveSpan(`fallback ${model.id}`, {
+        attributes: {
+          'llm.fallback.index': fallbackIndex,
+          'llm.fallback.from': requestedModelId,
+          'llm.fallback.reason': lastError instanceof Error ? lastError.name : 'CircuitOpenError'
+        }
+      }, async span => {
+        try {
+          return await attemptModel();
+        } catch (error) {
+          span.setStatus({ code: api.SpanStatusCode.ERROR, message: (error as Error).message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      });
+    } catch (error) {
+      if (classifyFailure(error) === 'fail') {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+  throw lastError ?? new CircuitOpenError(skipped);
+}
@@ -0,0 +1,148 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+
+// Prefix CloudFront forwards the API under; routes are declared without it
+const API_PREFIX = '/api';
+
+// Request headers a cross-origin client may send
+const ALLOWED_HEADERS = ['Content-Type', 'X-Id-Token', 'traceparent', 'tracestate'];
+
+// How long browsers may cache a preflight response, in seconds
+const PREFLIGHT_MAX_AGE = 600;
+
+/**
+ * A route of the API
+ * The path is matched below the /api prefix; a segment starting with a colon, e.g. /sessions/:sessionId,
+ * matches any one segment and is passed to the handler under that name.
+ */
+export interface Route<C> {
+  method: string;
+  path: string;
+  // Served without identifying the user
+  public?: boolean;
+  // Served only when users sign in; without authentication every visitor would be the same anonymous owner
+  signedIn?: boolean;
+  handler: (context: C, params: Record<string, string>) => Promise<APIGatewayProxyResult>;
+}
+
+/**
+ * Outcome of looking up a request in the route table
+ */
+export type RouteMatch<C> =
+  | { route: Route<C>; params: Record<string, string> }
+  | { allowedMethods: string[] }
+  | undefined;
+
+/**
+ * Strip the API prefix and any trailing slash from a request path
+ * @param path - The request path, e.g. /api/sessions/
+ * @returns The path of the route, e.g. /sessions, or / for the API root
+ */
+export function normalizePath(path: string): string {
+  const routePath = path.startsWith(`${API_PREFIX}/`) || path === API_PREFIX ? path.slice(API_PREFIX.length) : path;
+  return routePath.replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Match a request path against the path of a route
+ * @param pattern - The route path
+ * @param path - The normalized request path
+ * @returns The values of the named segments, or undefined if the path does not match
+ */
+function matchPath(pattern: string, path: string): Record<string, string> | undefined {
+  const patternSegments = pattern.split('/');
+  const pathSegments = path.split('/');
+  if (patternSegments.length !== pathSegments.length) {
+    return undefined;
+  }
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    if (patternSegments[i].startsWith(':') && pathSegments[i]) {
+      try {
+        params[patternSegments[i].slice(1)] = decodeURIComponent(pathSegments[i]);
+      } catch {
+        // A malformed escape sequence matches no route
+        return undefined;
+      }
+    } else if (patternSegments[i] !== pathSegments[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+/**
+ * Find the route of a request
+ * @param routes - The route table
+ * @param method - The HTTP method
+ * @param path - The request path
+ * @returns The route and its path parameters; the methods the path supports if none of its routes takes the
+ * method; or undefined if no route has the path
+ */
+export function findRoute<C>(routes: Route<C>[], method: string, path: string): RouteMatch<C> {
+  const routePath = normalizePath(path);
+  const allowedMethods: string[] = [];
+  for (const route of routes) {
+    const params = matchPath(route.path, routePath);
+    if (!params) {
+      continue;
+    }
+    if (route.method === method) {
+      return { route, params };
+    }
+    allowedMethods.push(route.method);
+  }
+  return allowedMethods.length > 0 ? { allowedMethods } : undefined;
+}
+
+/**
+ * Get the origins allowed to call the API from a browser
+ * Set by ALLOWED_ORIGINS, a comma-separated list such as https://app.example.com,http://localhost:3000;
+ * * allows every origin, which is the default.
+ * @returns Allowed origins
+ */
+export function getAllowedOrigins(): string[] {
+  const origins = (process.env.ALLOWED_ORIGINS ?? '*').split(',').map(origin => origin.trim()).filter(origin => origin);
+  return origins.length > 0 ? origins : ['*'];
+}
+
+/**
+ * Build the CORS headers of a response
+ * An origin outside the allowlist gets no Access-Control-Allow-Origin header, so the browser withholds the response.
+ * @param origin - The Origin header of the request, if any
+ * @returns CORS headers
+ */
+export function corsHeaders(origin: string | undefined): Record<string, string> {
+  const allowedOrigins = getAllowedOrigins();
+  if (allowedOrigins.includes('*')) {
+    return { 'Access-Control-Allow-Origin': '*' };
+  }
+  if (origin && allowedOrigins.includes(origin)) {
+    return { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' };
+  }
+  return { Vary: 'Origin' };
+}
+
+/**
+ * Build the headers of the response to a CORS preflight request
+ * @param origin - The Origin header of the request, if any
+ * @param allowedMethods - The methods the requested path supports
+ * @returns CORS headers
+ */
+export function preflightHeaders(origin: string | undefined, allowedMethods: string[]): Record<string, string> {
+  return {
+    ...corsHeaders(origin),
+    'Access-Control-Allow-Methods': [...allowedMethods, 'OPTIONS'].join(', '),
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS.join(', '),
+    'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE)
+  };
+}
+
+/**
+ * Build the response to a CORS preflight request
+ * @param origin - The Origin header of the request, if any
+ * @param allowedMethods - The methods the requested path supports
+ * @returns API Gateway response
+ */
+export function preflight(origin: string | undefined, allowedMethods: string[]): APIGatewayProxyResult {
+  return { statusCode: 204, headers: preflightHeaders(origin, allowedMethods), body: '' };
+}
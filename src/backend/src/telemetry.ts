@@ -0,0 +1,333 @@
+import * as api from '@opentelemetry/api';
+import { captureContent } from './redaction';
+
+// Define Trace name
+export const TRACE_NAME = 'llm-observability-backend';
+
+// Value of gen_ai.system for models called through Amazon Bedrock
+export const GEN_AI_SYSTEM = 'aws.bedrock';
+
+/**
+ * Whether to keep emitting the legacy llm.* span attributes next to their gen_ai.* replacements
+ * On by default so existing dashboards keep working; set LLM_LEGACY_ATTRIBUTES=false once they have migrated.
+ * @returns True if legacy attributes should be emitted
+ */
+export function isLegacyAttributesEnabled(): boolean {
+  return process.env.LLM_LEGACY_ATTRIBUTES !== 'false';
+}
+
+/**
+ * Whether prompts and completions are recorded as span events
+ * Off by default because message content may contain personal data; the recorded text also
+ * follows the content capture policy.
+ * @returns True if message content should be captured
+ */
+export function isMessageContentCaptureEnabled(): boolean {
+  return process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT === 'true';
+}
+
+/**
+ * Set a legacy llm.* attribute, unless legacy attributes are switched off
+ * @param span - The span to annotate
+ * @param key - The legacy attribute name
+ * @param value - The attribute value
+ */
+export function setLegacyAttribute(span: api.Span, key: string, value: api.AttributeValue): void {
+  if (isLegacyAttributesEnabled()) {
+    span.setAttribute(key, value);
+  }
+}
+
+/**
+ * Stages of a chat request whose duration is recorded on the request span
+ */
+export type RequestStage = 'input_guardrail' | 'history_load' | 'store_message' | 'model' | 'output_guardrail' | 'store_reply';
+
+/**
+ * Run a stage of a chat request and record how long it took as `llm.stage.<stage>_ms`
+ * Stages may overlap, so the durations can add up to more than the request took.
+ * @param span - The request span
+ * @param stage - The stage
+ * @param operation - The work of the stage
+ * @returns The result of the stage
+ */
+export async function timeStage<T>(span: api.Span, stage: RequestStage, operation: () => Promise<T>): Promise<T> {
+  const startTime = Date.now();
+  try {
+    return await operation();
+  } finally {
+    span.setAttribute(`llm.stage.${stage}_ms`, Date.now() - startTime);
+  }
+}
+
+/**
+ * Start a client span for a GenAI operation, named and annotated following the GenAI semantic conventions
+ * @param operation - The operation name, e.g. 'chat'
+ * @param modelId - The requested model
+ * @returns The started span
+ */
+export function startGenAiSpan(operation: string, modelId: string): api.Span {
+  return api.trace.getTracer(TRACE_NAME).startSpan(`${operation} ${modelId}`, {
+    kind: api.SpanKind.CLIENT,
+    attributes: {
+      'gen_ai.operation.name': operation,
+      'gen_ai.system': GEN_AI_SYSTEM,
+      'gen_ai.request.model': modelId
+    }
+  });
+}
+
+/**
+ * Record the system instructions and conversation sent to the model as span events
+ * Does nothing unless message content capture is enabled.
+ * @param span - The model span
+ * @param system - The system instructions
+ * @param messages - The conversation, oldest first
+ */
+export function addPromptEvents(span: api.Span, system: string[], messages: { role: string; content: string }[]): void {
+  if (!isMessageContentCaptureEnabled()) {
+    return;
+  }
+  for (const text of system) {
+    span.addEvent('gen_ai.system.message', { 'gen_ai.system': GEN_AI_SYSTEM, content: captureContent(text) });
+  }
+  for (const message of messages) {
+    span.addEvent(`gen_ai.${message.role}.message`, { 'gen_ai.system': GEN_AI_SYSTEM, content: captureContent(message.content) });
+  }
+}
+
+/**
+ * Record the completion returned by the model as a span event
+ * Does nothing unless message content capture is enabled.
+ * @param span - The model span
+ * @param content - The completion text
+ * @param finishReason - Why the model stopped generating
+ */
+export function addCompletionEvent(span: api.Span, content: string, finishReason: string): void {
+  if (!isMessageContentCaptureEnabled()) {
+    return;
+  }
+  span.addEvent('gen_ai.choice', {
+    'gen_ai.system': GEN_AI_SYSTEM,
+    index: 0,
+    finish_reason: finishReason,
+    message: JSON.stringify({ role: 'assistant', content: captureContent(content) })
+  });
+}
+
+/**
+ * How a chat request ended, recorded as the `outcome` metric dimension
+ */
+export type RequestOutcome = 'success' | 'input_blocked' | 'output_blocked' | 'invalid' | 'conflict' | 'rate_limited' | 'unavailable' | 'error';
+
+interface Instruments {
+  requests: api.Counter;
+  duration: api.Histogram;
+  inputTokens: api.Histogram;
+  outputTokens: api.Histogram;
+  cost: api.Counter;
+  guardrailBlocks: api.Counter;
+  guardrailErrors: api.Counter;
+  modelErrors: api.Counter;
+  modelRetries: api.Counter;
+  modelFallbacks: api.Counter;
+  quotaExceeded: api.Counter;
+}
+
+let instruments: Instruments | undefined;
+
+/**
+ * Create the metric instruments on first use
+ * The meter is looked up lazily so that it comes from the MeterProvider registered by
+ * the OpenTelemetry Lambda layer (or by a test) rather than the no-op default.
+ * @returns Metric instruments
+ */
+function getInstruments(): Instruments {
+  if (!instruments) {
+    const meter = api.metrics.getMeter(TRACE_NAME);
+    instruments = {
+      requests: meter.createCounter('llm.requests', {
+        description: 'Number of chat requests'
+      }),
+      duration: meter.createHistogram('llm.request.duration', {
+        description: 'Duration of chat requests',
+        unit: 'ms'
+      }),
+      inputTokens: meter.createHistogram('llm.usage.input_tokens', {
+        description: 'Input tokens per model call',
+        unit: '{token}'
+      }),
+      outputTokens: meter.createHistogram('llm.usage.output_tokens', {
+        description: 'Output tokens per model call',
+        unit: '{token}'
+      }),
+      cost: meter.createCounter('llm.cost', {
+        description: 'Cost of model calls',
+        unit: 'USD'
+      }),
+      guardrailBlocks: meter.createCounter('guardrails.blocks', {
+        description: 'Content blocked by guardrails, by category and source'
+      }),
+      guardrailErrors: meter.createCounter('guardrails.errors', {
+        description: 'Content the guardrail could not evaluate, by source and failure mode'
+      }),
+      modelErrors: meter.createCounter('llm.model.errors', {
+        description: 'Failed model calls, by exception type'
+      }),
+      modelRetries: meter.createCounter('llm.model.retries', {
+        description: 'Model calls retried after a transient failure, by exception type'
+      }),
+      modelFallbacks: meter.createCounter('llm.model.fallbacks', {
+        description: 'Requests moved on to a fallback model'
+      }),
+      quotaExceeded: meter.createCounter('llm.quota.exceeded', {
+        description: 'Requests refused for going over a rate limit or token quota, by scope and quota'
+      })
+    };
+  }
+  return instruments;
+}
+
+/**
+ * Record a finished chat request
+ * @param modelId - The requested model, or 'unknown' if it is not in the catalog
+ * @param outcome - How the request ended
+ * @param durationMs - Time taken to handle the request
+ * @param streaming - Whether the response was streamed
+ */
+export function recordRequest(modelId: string, outcome: RequestOutcome, durationMs: number, streaming: boolean): void {
+  const attributes = { 'llm.model_id': modelId, outcome, 'llm.streaming': streaming };
+  const { requests, duration } = getInstruments();
+  requests.add(1, attributes);
+  duration.record(durationMs, attributes);
+}
+
+/**
+ * Record the token usage and cost of a model call
+ * @param modelId - The model that was called
+ * @param usage - Token counts and cost in USD
+ */
+export function recordModelUsage(modelId: string, usage: { inputTokens: number; outputTokens: number; costUsd: number }): void {
+  const attributes = { 'llm.model_id': modelId, outcome: 'success' };
+  const { inputTokens, outputTokens, cost } = getInstruments();
+  inputTokens.record(usage.inputTokens, attributes);
+  outputTokens.record(usage.outputTokens, attributes);
+  cost.add(usage.costUsd, attributes);
+}
+
+/**
+ * Record a failed model call
+ * @param modelId - The model that was called
+ * @param error - The error thrown by the provider
+ */
+export function recordModelError(modelId: string, error: unknown): void {
+  const exceptionType = error instanceof Error ? error.name : 'Unknown';
+  getInstruments().modelErrors.add(1, { 'llm.model_id': modelId, outcome: 'error', 'exception.type': exceptionType });
+}
+
+/**
+ * Record a model call retried after a transient failure
+ * @param modelId - The model called
+ * @param error - The error of the failed attempt
+ */
+export function recordModelRetry(modelId: string, error: unknown): void {
+  const exceptionType = error instanceof Error ? error.name : 'Unknown';
+  getInstruments().modelRetries.add(1, { 'llm.model_id': modelId, 'exception.type': exceptionType });
+}
+
+/**
+ * Record a request moved on to a fallback model
+ * @param modelId - The requested model
+ * @param fallbackModelId - The fallback model tried next
+ */
+export function recordModelFallback(modelId: string, fallbackModelId: string): void {
+  getInstruments().modelFallbacks.add(1, { 'llm.model_id': modelId, 'llm.fallback.model_id': fallbackModelId });
+}
+
+/**
+ * Record a request refused for going over a quota
+ * @param scope - Whom the quota applies to ('user' or 'ip')
+ * @param quota - What the quota limits ('requests' or 'tokens')
+ */
+export function recordQuotaExceeded(scope: string, quota: string): void {
+  getInstruments().quotaExceeded.add(1, { outcome: 'rate_limited', 'quota.scope': scope, 'quota.name': quota });
+}
+
+/**
+ * Record content blocked by guardrails, once per filtered category
+ * @param modelId - The model the conversation is with
+ * @param source - The source of the content ('INPUT' or 'OUTPUT')
+ * @param categories - The categories that blocked the content
+ */
+export function recordGuardrailBlocks(modelId: string, source: 'INPUT' | 'OUTPUT', categories: string[]): void {
+  const outcome: RequestOutcome = source === 'INPUT' ? 'input_blocked' : 'output_blocked';
+  for (const category of categories) {
+    getInstruments().guardrailBlocks.add(1, {
+      'llm.model_id': modelId,
+      outcome,
+      'guardrails.source': source,
+      'guardrails.category': category
+    });
+  }
+}
+
+/**
+ * Record content the guardrail could not evaluate
+ * @param modelId - The model the conversation is with
+ * @param source - The source of the content ('INPUT' or 'OUTPUT')
+ * @param exceptionType - The error thrown by the guardrail call
+ * @param failureMode - Whether the content was let through ('open') or blocked ('closed')
+ */
+export function recordGuardrailError(
+  modelId: string,
+  source: 'INPUT' | 'OUTPUT',
+  exceptionType: string,
+  failureMode: 'open' | 'closed'
+): void {
+  getInstruments().guardrailErrors.add(1, {
+    'llm.model_id': modelId,
+    'guardrails.source': source,
+    'guardrails.failure_mode': failureMode,
+    'exception.type': exceptionType
+  });
+}
+
+/**
+ * Run a request handler under the W3C trace context (traceparent, tracestate) sent by the caller
+ * When the caller's trace differs from the one the Lambda runtime started, a server span is started
+ * as a child of the caller's span, linked to the Lambda invocation span, so the trace runs from the
+ * browser to the model call. Otherwise the handler annotates the active span.
+ * @param headers - The HTTP request headers
+ * @param handle - The request handler, called with the span representing the request
+ * @returns The result of the handler
+ */
+export async function withRequestContext<T>(
+  headers: Record<string, string | undefined> | null | undefined,
+  handle: (span: api.Span) => Promise<T>
+): Promise<T> {
+  const carrier: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value !== undefined) {
+      carrier[name.toLowerCase()] = value;
+    }
+  }
+  const callerContext = api.propagation.extract(api.ROOT_CONTEXT, carrier);
+  const callerSpanContext = api.trace.getSpanContext(callerContext);
+  const activeSpan = api.trace.getActiveSpan();
+
+  const isNewTrace = !!callerSpanContext && api.trace.isSpanContextValid(callerSpanContext)
+    && callerSpanContext.traceId !== activeSpan?.spanContext().traceId;
+  if (activeSpan && !isNewTrace) {
+    return handle(activeSpan);
+  }
+
+  const span = api.trace.getTracer(TRACE_NAME).startSpan(TRACE_NAME, {
+    kind: api.SpanKind.SERVER,
+    links: activeSpan ? [{ context: activeSpan.spanContext() }] : []
+  }, callerContext);
+  try {
+    return await api.context.with(api.trace.setSpan(callerContext, span), () => handle(span));
+  } finally {
+    span.end();
+  }
+}
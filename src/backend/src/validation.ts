@@ -0,0 +1,164 @@
+import { InferenceSettings } from './inference';
+
+/**
+ * Body of a chat request, mirroring ChatRequest in src/shared/types.ts
+ * The Lambda bundle cannot import the shared types, so tests/shared-types.test.ts checks the two copies are identical.
+ */
+export interface ChatRequest {
+  sessionId?: string;
+  message: string;
+  modelId: string;
+  promptTemplateId?: string;
+  systemPrompt?: string;
+  inferenceConfig?: InferenceSettings;
+}
+
+/**
+ * A field of a request that does not match its schema
+ */
+export interface ValidationIssue {
+  // Dotted path of the field, e.g. inferenceConfig.stopSequences.0
+  path: string;
+  message: string;
+}
+
+interface StringSchema {
+  type: 'string';
+  // Whether only whitespace counts as missing
+  nonBlank?: boolean;
+  maxLength?: number;
+}
+
+interface NumberSchema {
+  type: 'number';
+}
+
+interface ArraySchema<T> {
+  type: 'array';
+  items: Schema<T>;
+}
+
+interface ObjectSchema<T> {
+  type: 'object';
+  properties: { [K in keyof T]-?: Schema<NonNullable<T[K]>> };
+  required: (keyof T)[];
+}
+
+/**
+ * Schema of a value of type T; the compiler checks it lists every field of an interface
+ */
+export type Schema<T> =
+  T extends string ? StringSchema
+    : T extends number ? NumberSchema
+      : T extends (infer U)[] ? ArraySchema<U>
+        : ObjectSchema<T>;
+
+// Longest session ID accepted; the server generates UUIDs
+const MAX_SESSION_ID_LENGTH = 128;
+// Longest user message accepted, well inside the 40 KB body limit of the edge
+export const MAX_MESSAGE_LENGTH = 20000;
+
+// Limits of the inference settings depend on the model and are checked by resolveInferenceConfig
+const INFERENCE_SETTINGS_SCHEMA: Schema<InferenceSettings> = {
+  type: 'object',
+  properties: {
+    maxTokens: { type: 'number' },
+    temperature: { type: 'number' },
+    topP: { type: 'number' },
+    stopSequences: { type: 'array', items: { type: 'string' } }
+  },
+  required: []
+};
+
+export const CHAT_REQUEST_SCHEMA: Schema<ChatRequest> = {
+  type: 'object',
+  properties: {
+    sessionId: { type: 'string', nonBlank: true, maxLength: MAX_SESSION_ID_LENGTH },
+    message: { type: 'string', nonBlank: true, maxLength: MAX_MESSAGE_LENGTH },
+    modelId: { type: 'string', nonBlank: true },
+    promptTemplateId: { type: 'string' },
+    systemPrompt: { type: 'string' },
+    inferenceConfig: INFERENCE_SETTINGS_SCHEMA
+  },
+  required: ['message', 'modelId']
+};
+
+/**
+ * Check a value against a schema
+ * Fields the schema does not know are ignored.
+ * @param schema - The schema
+ * @param value - The value to check
+ * @param path - Path of the value, for the issues reported
+ * @returns Every field that does not match, empty if the value is valid
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, path = ''): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [{ path: path || '(body)', message }];
+  const fieldSchema = schema as StringSchema | NumberSchema | ArraySchema<unknown> | ObjectSchema<Record<string, unknown>>;
+
+  switch (fieldSchema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return issue('must be a string');
+      }
+      if (fieldSchema.nonBlank && !value.trim()) {
+        return issue('must not be empty');
+      }
+      if (fieldSchema.maxLength !== undefined && value.length > fieldSchema.maxLength) {
+        return issue(`must be at most ${fieldSchema.maxLength} characters`);
+      }
+      return [];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : issue('must be a number');
+    case 'array':
+      if (!Array.isArray(value)) {
+        return issue('must be a list');
+      }
+      return value.flatMap((item, index) => validate(fieldSchema.items, item, path ? `${path}.${index}` : String(index)));
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return issue('must be an object');
+      }
+      const fields = value as Record<string, unknown>;
+      return Object.entries(fieldSchema.properties).flatMap(([name, propertySchema]) => {
+        const fieldPath = path ? `${path}.${name}` : name;
+        if (fields[name] === undefined) {
+          return fieldSchema.required.includes(name) ? [{ path: fieldPath, message: 'is required' }] : [];
+        }
+        return validate(propertySchema as Schema<unknown>, fields[name], fieldPath);
+      });
+    }
+  }
+}
+
+/**
+ * Parse and check the body of a chat request
+ * @param body - The raw request body
+ * @returns The chat request with only the fields of its schema, or an error message and the fields that are invalid
+ */
+export function parseChatRequest(body: string | null | undefined): ChatRequest | { error: string; details: ValidationIssue[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(body || '{}');
+  } catch {
+    return { error: 'The request body is not valid JSON', details: [] };
+  }
+  const details = validate(CHAT_REQUEST_SCHEMA, value);
+  if (details.length > 0) {
+    return { error: `Invalid request: ${details.map(({ path, message }) => `${path} ${message}`).join('; ')}`, details };
+  }
+  const request = value as ChatRequest;
+  const inferenceConfig = request.inferenceConfig && {
+    maxTokens: request.inferenceConfig.maxTokens,
+    temperature: request.inferenceConfig.temperature,
+    topP: request.inferenceConfig.topP,
+    stopSequences: request.inferenceConfig.stopSequences
+  };
+  return {
+    sessionId: request.sessionId,
+    message: request.message,
+    modelId: request.modelId,
+    promptTemplateId: request.promptTemplateId,
+    systemPrompt: request.systemPrompt,
+    inferenceConfig
+  };
+}
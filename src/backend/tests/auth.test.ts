@@ -0,0 +1,77 @@
+import { AuthConfig, AuthError, authenticate, getAuthConfig, verifyIdToken } from '../src/auth';
+import { TestIssuer } from './helpers/test-issuer';
+import 'jest';
+
+describe('verifyIdToken', () => {
+  const issuer = new TestIssuer();
+  let config: AuthConfig;
+
+  beforeEach(() => {
+    issuer.install();
+    config = getAuthConfig()!;
+  });
+
+  afterEach(() => {
+    issuer.uninstall();
+    jest.restoreAllMocks();
+  });
+
+  test('should return the subject of a valid token', async () => {
+    const user = await verifyIdToken(issuer.sign('user-1', { email: 'jane@example.com' }), config);
+
+    expect(user.userId).toBe('user-1');
+    expect(user.claims.email).toBe('jane@example.com');
+    expect(config.jwksUrl).toBe('https://issuer.test/.well-known/jwks.json');
+  });
+
+  test('should reject a token whose payload was changed after signing', async () => {
+    const [header, , signature] = issuer.sign('user-1').split('.');
+    const payload = Buffer.from(JSON.stringify({ iss: issuer.issuer, aud: issuer.audience, sub: 'admin', exp: 9999999999 })).toString('base64url');
+
+    await expect(verifyIdToken(`${header}.${payload}.${signature}`, config)).rejects.toThrow('Invalid ID token signature');
+  });
+
+  test('should reject tokens of another issuer or audience, expired ones and unsigned ones', async () => {
+    const past = Math.floor(Date.now() / 1000) - 3600;
+
+    await expect(verifyIdToken(issuer.sign('user-1', { iss: 'https://other.test' }), config)).rejects.toThrow('unexpected issuer');
+    await expect(verifyIdToken(issuer.sign('user-1', { aud: ['other-client'] }), config)).rejects.toThrow('unexpected audience');
+    await expect(verifyIdToken(issuer.sign('user-1', { exp: past }), config)).rejects.toThrow('expired');
+    await expect(verifyIdToken(issuer.sign('user-1', {}, { alg: 'none' }), config)).rejects.toBeInstanceOf(AuthError);
+    await expect(verifyIdToken('not-a-token', config)).rejects.toThrow('Malformed ID token');
+  });
+
+  test('should fetch the signing keys once and again only for an unknown key after a while', async () => {
+    const now = Date.now();
+    await verifyIdToken(issuer.sign('user-1'), config, now);
+    await verifyIdToken(issuer.sign('user-2'), config, now);
+    expect(issuer.jwksRequests).toBe(1);
+
+    const unknownKey = issuer.sign('user-1', {}, { kid: 'rotated' });
+    await expect(verifyIdToken(unknownKey, config, now)).rejects.toThrow('Invalid ID token signature');
+    expect(issuer.jwksRequests).toBe(1);
+    await expect(verifyIdToken(unknownKey, config, now + 60 * 1000)).rejects.toThrow('Invalid ID token signature');
+    expect(issuer.jwksRequests).toBe(2);
+  });
+});
+
+describe('authenticate', () => {
+  const issuer = new TestIssuer();
+
+  afterEach(() => {
+    issuer.uninstall();
+    jest.restoreAllMocks();
+  });
+
+  test('should treat every request as anonymous when no issuer is configured', async () => {
+    await expect(authenticate({})).resolves.toBeUndefined();
+  });
+
+  test('should read the token from the ID token header, with or without the Bearer scheme', async () => {
+    issuer.install();
+
+    await expect(authenticate({ 'X-Id-Token': `Bearer ${issuer.sign('user-1')}` })).resolves.toEqual(expect.objectContaining({ userId: 'user-1' }));
+    await expect(authenticate({ 'x-id-token': issuer.sign('user-2') })).resolves.toEqual(expect.objectContaining({ userId: 'user-2' }));
+    await expect(authenticate({})).rejects.toThrow('Sign-in required');
+  });
+});
@@ -0,0 +1,97 @@
+import { CloudFrontRequest, CloudFrontRequestEvent, CloudFrontResultResponse, Context } from 'aws-lambda';
+import { createHash } from 'crypto';
+import { handler, MAX_BODY_BYTES } from '../src/edge-auth';
+import 'jest';
+
+const EMPTY_HASH = createHash('sha256').update('').digest('hex');
+
+const viewerRequest = (request: Partial<CloudFrontRequest>): CloudFrontRequestEvent => ({
+  Records: [{
+    cf: {
+      config: { distributionDomainName: 'd111111abcdef8.cloudfront.net', distributionId: 'EDFDVBD6EXAMPLE', eventType: 'viewer-request', requestId: 'r-1' },
+      request: { clientIp: '203.0.113.7', method: 'POST', uri: '/api/', querystring: '', headers: {}, ...request }
+    }
+  }]
+});
+
+const body = (data: Buffer | string, extra: Partial<NonNullable<CloudFrontRequest['body']>> = {}): CloudFrontRequest['body'] => ({
+  action: 'read-only',
+  encoding: 'base64',
+  inputTruncated: false,
+  data: Buffer.from(data).toString('base64'),
+  ...extra
+});
+
+/**
+ * Run the viewer request handler
+ */
+async function run(event: CloudFrontRequestEvent) {
+  return await handler(event, {} as Context, () => undefined) as CloudFrontRequest | CloudFrontResultResponse;
+}
+
+const contentHash = (result: CloudFrontRequest | CloudFrontResultResponse) =>
+  (result as CloudFrontRequest).headers['x-amz-content-sha256']?.[0].value;
+
+describe('edge auth handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should pass a GET request through untouched', async () => {
+    const event = viewerRequest({ method: 'GET', uri: '/api/sessions' });
+
+    const result = await run(event);
+
+    expect(result).toBe(event.Records[0].cf.request);
+    expect(contentHash(result)).toBeUndefined();
+  });
+
+  test('should sign an empty POST body with the hash of no bytes', async () => {
+    expect(contentHash(await run(viewerRequest({})))).toBe(EMPTY_HASH);
+    expect(contentHash(await run(viewerRequest({ body: body('') })))).toBe(EMPTY_HASH);
+  });
+
+  test('should hash the raw bytes of a base64 body', async () => {
+    // Not valid UTF-8: decoding and re-encoding it as text would change the bytes
+    const bytes = Buffer.from([0x7b, 0xff, 0xfe, 0x22, 0xe2, 0x82]);
+
+    const result = await run(viewerRequest({ body: body(bytes) }));
+
+    expect(contentHash(result)).toBe(createHash('sha256').update(bytes).digest('hex'));
+  });
+
+  test('should hash a text body as UTF-8', async () => {
+    const json = JSON.stringify({ message: 'Grüße 👋' });
+
+    const result = await run(viewerRequest({ body: { action: 'read-only', encoding: 'text', inputTruncated: false, data: json } }));
+
+    expect(contentHash(result)).toBe(createHash('sha256').update(json, 'utf-8').digest('hex'));
+  });
+
+  test('should refuse a truncated or oversized body with a 413', async () => {
+    const truncated = await run(viewerRequest({ body: body('{"message":"a long prom', { inputTruncated: true }) })) as CloudFrontResultResponse;
+    const oversized = await run(viewerRequest({ body: body(Buffer.alloc(MAX_BODY_BYTES + 1, 'a')) })) as CloudFrontResultResponse;
+
+    expect(truncated.status).toBe('413');
+    expect(JSON.parse(truncated.body!)).toEqual({ error: expect.stringContaining(`${MAX_BODY_BYTES} bytes`), code: 'payload_too_large' });
+    expect(oversized.status).toBe('413');
+    expect(JSON.parse(oversized.body!).code).toBe('payload_too_large');
+  });
+
+  test('should keep the body and credentials out of the logs', async () => {
+    await run(viewerRequest({
+      headers: { 'x-id-token': [{ key: 'X-Id-Token', value: 'secret-token' }] },
+      body: body(JSON.stringify({ message: 'My card is 4111 1111 1111 1111' }))
+    }));
+
+    const logged = (console.log as jest.Mock).mock.calls.flat().join(' ');
+    expect(logged).not.toContain('secret-token');
+    expect(logged).not.toContain('4111');
+    expect(logged).not.toContain(Buffer.from(JSON.stringify({ message: 'My card is 4111 1111 1111 1111' })).toString('base64'));
+    expect(logged).toContain('[REDACTED]');
+  });
+});
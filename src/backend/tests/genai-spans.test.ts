@@ -0,0 +1,251 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { Writable } from 'stream';
+import { GuardrailContentFilterConfidence, GuardrailContentPolicyAction } from '@aws-sdk/client-bedrock-runtime';
+import * as api from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, ReadableSpan, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { handler, streamChat } from '../src/index';
+import { MockModelProvider, setModelProvider } from '../src/providers';
+import { resetCircuitBreakers } from '../src/resilience';
+import { MemoryTable } from './helpers/memory-table';
+import { TestIssuer } from './helpers/test-issuer';
+import 'jest';
+
+const MODEL_ID = 'us.amazon.nova-pro-v1:0';
+
+const chatEvent = (body: Record<string, unknown>): APIGatewayProxyEvent =>
+  ({ httpMethod: 'POST', path: '/api/', body: JSON.stringify({ modelId: MODEL_ID, ...body }) } as APIGatewayProxyEvent);
+
+describe('GenAI semantic conventions', () => {
+  const exporter = new InMemorySpanExporter();
+  api.trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  // Fallback spans parent the model calls made within them
+  api.context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+  let provider: MockModelProvider;
+
+  // The span of the model call made by the last request
+  const modelSpan = (): ReadableSpan => exporter.getFinishedSpans().find(span => span.name === `chat ${MODEL_ID}`)!;
+
+  beforeEach(() => {
+    provider = new MockModelProvider();
+    setModelProvider(provider);
+    new MemoryTable().install();
+    exporter.reset();
+    process.env.MODEL_RETRY_BASE_DELAY_MS = '0';
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+    resetCircuitBreakers();
+    delete process.env.MODEL_RETRY_BASE_DELAY_MS;
+    delete process.env.LLM_LEGACY_ATTRIBUTES;
+    delete process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT;
+    delete process.env.HISTORY_STRATEGY;
+    delete process.env.HISTORY_TOKEN_BUDGET;
+    jest.restoreAllMocks();
+  });
+
+  test('should name and annotate the model span following the conventions', async () => {
+    provider.scriptReply('Hello from the mock model');
+
+    await handler(chatEvent({ message: 'Hi there', promptTemplateId: 'assistant' }));
+    const span = modelSpan();
+
+    expect(span.kind).toBe(api.SpanKind.CLIENT);
+    expect(span.attributes).toEqual(expect.objectContaining({
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': 'aws.bedrock',
+      'gen_ai.request.model': MODEL_ID,
+      'gen_ai.response.model': MODEL_ID,
+      'gen_ai.request.max_tokens': 1000,
+      'gen_ai.prompt.name': 'assistant',
+      'gen_ai.usage.input_tokens': expect.any(Number),
+      'gen_ai.usage.output_tokens': expect.any(Number),
+      'gen_ai.response.finish_reasons': ['end_turn']
+    }));
+    expect(span.events).toEqual([]);
+  });
+
+  test('should keep the legacy attributes until they are switched off', async () => {
+    await handler(chatEvent({ message: 'Hi there' }));
+    expect(modelSpan().attributes).toEqual(expect.objectContaining({ 'llm.model_id': MODEL_ID, 'llm.stop_reason': 'end_turn' }));
+
+    exporter.reset();
+    process.env.LLM_LEGACY_ATTRIBUTES = 'false';
+    await handler(chatEvent({ message: 'Hi there' }));
+    const keys = Object.keys(modelSpan().attributes);
+
+    expect(keys).not.toContain('llm.model_id');
+    expect(keys).not.toContain('llm.input_tokens');
+    expect(keys).toContain('gen_ai.usage.input_tokens');
+    // Cost has no GenAI equivalent and is always recorded
+    expect(keys).toContain('llm.cost_usd');
+  });
+
+  test('should mark streamed model calls', async () => {
+    provider.scriptReply('One two three');
+
+    await streamChat(chatEvent({ message: 'Count to three' }), new Writable({ write: (_chunk, _encoding, callback) => callback() }));
+    const span = modelSpan();
+
+    expect(span.attributes['gen_ai.request.stream']).toBe(true);
+    expect(span.attributes['gen_ai.response.time_to_first_chunk']).toEqual(expect.any(Number));
+    expect(span.attributes['gen_ai.response.finish_reasons']).toEqual(['end_turn']);
+  });
+
+  test('should record how the history was fitted into the token budget', async () => {
+    process.env.HISTORY_STRATEGY = 'sliding_window';
+    process.env.HISTORY_TOKEN_BUDGET = '20';
+    provider.scriptReply('First answer', 'Second answer');
+
+    const first = JSON.parse((await handler(chatEvent({ message: 'First question' }))).body);
+    exporter.reset();
+    await handler(chatEvent({ message: 'Second question', sessionId: first.sessionId }));
+
+    expect(modelSpan().attributes).toEqual(expect.objectContaining({
+      'llm.history.strategy': 'sliding_window',
+      'llm.history.token_budget': 20,
+      'llm.history.estimated_tokens': 8,
+      'llm.history.turns_dropped': 1,
+      'llm.history.turns_summarized': 0
+    }));
+  });
+
+  test('should record each attempt and each fallback as its own span', async () => {
+    const fallbackModelId = 'us.amazon.nova-lite-v1:0';
+    provider.injectThrottling('converse', 3);
+
+    await handler(chatEvent({ message: 'Hi there' }));
+    const spans = exporter.getFinishedSpans();
+    const attempts = spans.filter(span => span.name === `chat ${MODEL_ID}`);
+    const fallback = spans.find(span => span.name === `fallback ${fallbackModelId}`)!;
+    const fallbackCall = spans.find(span => span.name === `chat ${fallbackModelId}`)!;
+
+    expect(attempts.map(span => span.attributes['llm.attempt'])).toEqual([1, 2, 3]);
+    expect(attempts.every(span => span.status.code === api.SpanStatusCode.ERROR)).toBe(true);
+    expect(fallback.attributes).toEqual(expect.objectContaining({
+      'llm.fallback.index': 1,
+      'llm.fallback.from': MODEL_ID,
+      'llm.fallback.reason': 'ThrottlingException'
+    }));
+    expect(fallbackCall.parentSpanContext?.spanId).toBe(fallback.spanContext().spanId);
+    expect(fallbackCall.attributes).toEqual(expect.objectContaining({ 'llm.attempt': 1, 'llm.fallback.from': MODEL_ID }));
+  });
+
+  test('should redact the content recorded on a guardrail span', async () => {
+    provider.scriptGuardrail('INPUT', {
+      filters: [{ type: 'HATE', confidence: GuardrailContentFilterConfidence.HIGH, action: GuardrailContentPolicyAction.BLOCKED }]
+    });
+
+    await handler(chatEvent({ message: 'I hate jane@example.com' }));
+    const guardrailSpan = exporter.getFinishedSpans().find(span => span.name === 'Guardrails-INPUT')!;
+
+    expect(guardrailSpan.attributes['guardrails.input']).toBe('I hate [EMAIL]');
+  });
+
+  test('should only mark a guardrail span failed when the content was withheld', async () => {
+    provider.scriptGuardrail('INPUT', {
+      filters: [{ type: 'INSULTS', confidence: GuardrailContentFilterConfidence.LOW, action: 'NONE', detected: true }]
+    });
+
+    await handler(chatEvent({ message: 'You silly bot' }));
+    const guardrailSpan = exporter.getFinishedSpans().find(span => span.name === 'Guardrails-INPUT')!;
+
+    expect(guardrailSpan.status.code).not.toBe(api.SpanStatusCode.ERROR);
+    expect(guardrailSpan.attributes['guardrails.level']).toBe('none');
+  });
+
+  test('should mark a guardrail span whose content could not be evaluated', async () => {
+    provider.injectThrottling('applyGuardrail', 3);
+
+    await handler(chatEvent({ message: 'Hi there' }));
+    const guardrailSpan = exporter.getFinishedSpans().find(span => span.name === 'Guardrails-INPUT')!;
+
+    expect(guardrailSpan.status.code).toBe(api.SpanStatusCode.ERROR);
+    expect(guardrailSpan.attributes['guardrails.status']).toBe('error');
+    expect(guardrailSpan.events.map(event => [event.name, event.attributes])).toEqual([['guardrails.error', {
+      'guardrails.source': 'INPUT',
+      'guardrails.failure_mode': 'open',
+      'exception.type': 'ThrottlingException'
+    }]]);
+  });
+
+  test('should record the duration of each stage on the request span', async () => {
+    await handler(chatEvent({ message: 'Hi there' }));
+    const requestSpan = exporter.getFinishedSpans().find(span => span.name === 'llm-observability-backend')!;
+
+    expect(requestSpan.attributes['llm.speculative']).toBe(false);
+    for (const stage of ['input_guardrail', 'history_load', 'store_message', 'model', 'output_guardrail', 'store_reply']) {
+      expect(requestSpan.attributes[`llm.stage.${stage}_ms`]).toEqual(expect.any(Number));
+    }
+  });
+
+  test('should mark a cancelled speculative model call without recording it as failed', async () => {
+    process.env.SPECULATIVE_MODEL_CALL = 'true';
+    provider.setLatency('converse', 50);
+    provider.scriptGuardrail('INPUT', {
+      filters: [{ type: 'HATE', confidence: GuardrailContentFilterConfidence.HIGH, action: GuardrailContentPolicyAction.BLOCKED }]
+    });
+
+    try {
+      await handler(chatEvent({ message: 'Something hateful' }));
+    } finally {
+      delete process.env.SPECULATIVE_MODEL_CALL;
+    }
+    const requestSpan = exporter.getFinishedSpans().find(span => span.name === 'llm-observability-backend')!;
+
+    expect(requestSpan.attributes['llm.speculative.result']).toBe('cancelled');
+    expect(modelSpan().attributes['llm.cancelled']).toBe(true);
+    expect(modelSpan().status.code).not.toBe(api.SpanStatusCode.ERROR);
+  });
+
+  test('should record the verified user on the request span', async () => {
+    const issuer = new TestIssuer().install();
+    provider.scriptReply('Hello Jane');
+
+    try {
+      await handler({ ...chatEvent({ message: 'Hi there' }), headers: issuer.headers('user-1') });
+    } finally {
+      issuer.uninstall();
+    }
+    const requestSpan = exporter.getFinishedSpans().find(span => span.name === 'llm-observability-backend')!;
+
+    expect(requestSpan.attributes['enduser.id']).toBe('user-1');
+  });
+
+  test('should record a request over its quota as a span event', async () => {
+    process.env.QUOTA_TABLE_NAME = 'quota';
+    process.env.QUOTA_IP_REQUESTS_PER_MINUTE = '0';
+    process.env.QUOTA_IP_TOKENS_PER_DAY = '1';
+    new MemoryTable(['subject', 'sk'], {}, 'quota').install().put({ subject: 'ip#203.0.113.7', sk: `tokens#${new Date().toISOString().slice(0, 10)}`, used: 5 });
+
+    try {
+      await handler({ ...chatEvent({ message: 'Hi there' }), headers: { 'cloudfront-viewer-address': '203.0.113.7:443' } });
+    } finally {
+      delete process.env.QUOTA_TABLE_NAME;
+      delete process.env.QUOTA_IP_REQUESTS_PER_MINUTE;
+      delete process.env.QUOTA_IP_TOKENS_PER_DAY;
+    }
+    const requestSpan = exporter.getFinishedSpans().find(span => span.name === 'llm-observability-backend')!;
+
+    expect(requestSpan.events.map(event => [event.name, event.attributes])).toEqual([['quota.exceeded', {
+      'quota.scope': 'ip', 'quota.name': 'tokens', 'quota.limit': 1, 'quota.used': 5
+    }]]);
+    expect(modelSpan()).toBeUndefined();
+  });
+
+  test('should record prompt and completion events when content capture is enabled', async () => {
+    process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT = 'true';
+    provider.scriptReply('Hello from the mock model');
+
+    await handler(chatEvent({ message: 'Hi there', systemPrompt: 'Be brief.' }));
+    const events = modelSpan().events;
+
+    expect(events.map(event => event.name)).toEqual(['gen_ai.system.message', 'gen_ai.user.message', 'gen_ai.choice']);
+    expect(events[0].attributes!.content).toBe('Be brief.');
+    expect(events[1].attributes!.content).toBe('Hi there');
+    expect(JSON.parse(events[2].attributes!.message as string).content).toBe('Hello from the mock model');
+  });
+});
@@ -0,0 +1,125 @@
+import { GuardrailAssessment } from '@aws-sdk/client-bedrock-runtime';
+import {
+  categoriesAtLevel,
+  findingCategory,
+  getConfidenceScores,
+  getGuardrailThresholds,
+  isBlockingFinding,
+  parseAssessments,
+  toContentFilterResults,
+  toGuardrailLevel
+} from '../src/guardrails';
+import 'jest';
+
+// A full-scope assessment with a finding of every policy
+const assessment: GuardrailAssessment = {
+  contentPolicy: {
+    filters: [
+      { type: 'HATE', confidence: 'NONE', action: 'NONE', detected: false },
+      { type: 'PROMPT_ATTACK', confidence: 'HIGH', action: 'BLOCKED', detected: true }
+    ]
+  },
+  topicPolicy: { topics: [{ name: 'Investment advice', type: 'DENY', action: 'BLOCKED', detected: true }] },
+  wordPolicy: {
+    customWords: [{ match: 'secret project', action: 'BLOCKED', detected: true }],
+    managedWordLists: [{ match: 'darn', type: 'PROFANITY', action: 'NONE', detected: true }]
+  },
+  sensitiveInformationPolicy: {
+    piiEntities: [{ match: 'jane@example.com', type: 'EMAIL', action: 'ANONYMIZED', detected: true }],
+    regexes: [{ name: 'employee-id', match: 'E-1234', regex: 'E-\\d+', action: 'BLOCKED' }]
+  },
+  contextualGroundingPolicy: {
+    filters: [{ type: 'GROUNDING', threshold: 0.7, score: 0.4, action: 'BLOCKED', detected: true }]
+  }
+};
+
+describe('parseAssessments', () => {
+  test('should read the findings of every policy', () => {
+    const findings = parseAssessments([assessment]);
+
+    expect(findings.map(finding => [finding.policy, finding.name, finding.action])).toEqual([
+      ['content', 'HATE', 'NONE'],
+      ['content', 'PROMPT_ATTACK', 'BLOCKED'],
+      ['topic', 'Investment advice', 'BLOCKED'],
+      ['word', 'CUSTOM_WORDS', 'BLOCKED'],
+      ['word', 'PROFANITY', 'NONE'],
+      ['sensitive_information', 'EMAIL', 'ANONYMIZED'],
+      ['sensitive_information', 'employee-id', 'BLOCKED'],
+      ['contextual_grounding', 'GROUNDING', 'BLOCKED']
+    ]);
+    expect(findings[1].score).toBe(1.0);
+    expect(findings[7]).toEqual(expect.objectContaining({ score: 0.4, threshold: 0.7 }));
+  });
+
+  test('should leave the matched text out', () => {
+    const serialized = JSON.stringify(parseAssessments([assessment]));
+
+    expect(serialized).not.toContain('jane@example.com');
+    expect(serialized).not.toContain('secret project');
+  });
+
+  test('should count a finding without a detected flag as detected when the policy acted', () => {
+    const [regex] = parseAssessments([{ sensitiveInformationPolicy: { piiEntities: [], regexes: assessment.sensitiveInformationPolicy!.regexes } }]);
+
+    expect(regex.detected).toBe(true);
+  });
+});
+
+describe('guardrail findings', () => {
+  const findings = parseAssessments([assessment]);
+
+  test('should summarize the content filters by category', () => {
+    const results = toContentFilterResults(findings);
+
+    expect(results.promptAttack).toEqual({ filtered: true, score: 1.0, level: 'warn' });
+    expect(results.hateful).toEqual({ filtered: false, score: 0, level: 'none' });
+    expect(results.misconduct).toEqual({ filtered: false, score: 0, level: 'none' });
+  });
+
+  test('should count blocking findings under their content category or policy', () => {
+    expect(findings.filter(isBlockingFinding).map(findingCategory)).toEqual([
+      'promptAttack', 'topic', 'word', 'sensitive_information', 'contextual_grounding'
+    ]);
+  });
+});
+
+describe('guardrail calibration', () => {
+  afterEach(() => {
+    delete process.env.GUARDRAIL_CONFIDENCE_SCORES;
+    delete process.env.GUARDRAIL_THRESHOLDS;
+    jest.restoreAllMocks();
+  });
+
+  test('should map confidences to the configured scores, keeping the defaults for the rest', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    process.env.GUARDRAIL_CONFIDENCE_SCORES = JSON.stringify({ LOW: 0.2, MEDIUM: 0.5, HIGH: 7, VERY_HIGH: 1 });
+
+    expect(getConfidenceScores()).toEqual({ NONE: 0, LOW: 0.2, MEDIUM: 0.5, HIGH: 1.0 });
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  test('should warn from MEDIUM confidence on and leave blocking to Bedrock by default', () => {
+    const thresholds = getGuardrailThresholds();
+    const scores = getConfidenceScores();
+
+    expect(toGuardrailLevel(scores.LOW, thresholds.hateful)).toBe('none');
+    expect(toGuardrailLevel(scores.MEDIUM, thresholds.hateful)).toBe('warn');
+    expect(toGuardrailLevel(scores.HIGH, thresholds.hateful)).toBe('warn');
+  });
+
+  test('should grade each category against its own thresholds', () => {
+    process.env.GUARDRAIL_THRESHOLDS = JSON.stringify({ default: { warn: 0.9 }, promptAttack: { warn: 0.2, block: 0.6 } });
+    const results = toContentFilterResults(parseAssessments([{
+      contentPolicy: {
+        filters: [
+          { type: 'HATE', confidence: 'MEDIUM', action: 'NONE', detected: true },
+          { type: 'PROMPT_ATTACK', confidence: 'MEDIUM', action: 'NONE', detected: true }
+        ]
+      }
+    }]));
+
+    expect(results.hateful.level).toBe('none');
+    expect(results.promptAttack).toEqual({ filtered: false, score: 0.7, level: 'block' });
+    expect(categoriesAtLevel(results, 'block')).toEqual(['promptAttack']);
+  });
+});
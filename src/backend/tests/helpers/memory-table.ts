@@ -0,0 +1,215 @@
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+  BatchWriteCommand,
+  TransactWriteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+
+type Item = Record<string, any>;
+
+/**
+ * Get the table a command is sent to
+ */
+function tableNameOf(command: unknown): string | undefined {
+  const input = (command as { input?: Item }).input || {};
+  return input.TableName
+    ?? Object.keys(input.RequestItems || {})[0]
+    ?? (input.TransactItems?.[0]?.Put || input.TransactItems?.[0]?.Update)?.TableName;
+}
+
+// Partition and sort key attribute names of the table and of its indexes
+type KeySchema = [string, string];
+
+/**
+ * In-memory stand-in for the chat table
+ * Routes DynamoDBDocumentClient.send to an array of items, supporting the subset of PutCommand,
+ * GetCommand, QueryCommand (partition key equality, optionally with begins_with on the sort key, on the
+ * table or an index, paged with Limit and ExclusiveStartKey), ScanCommand (begins_with filter), UpdateCommand (SET / ADD, if_not_exists),
+ * BatchWriteCommand (puts and deletes) and TransactWriteCommand (Put / Update with simple conditions)
+ * that the backend uses.
+ * Call `install()` in beforeEach; `jest.restoreAllMocks()` removes it again.
+ * Set `latencyMs` to make every call take a while, as a round trip to DynamoDB would.
+ * A table given a name only serves commands for that table and passes the others on to the table
+ * installed before it, so a named table can be installed next to the chat table.
+ */
+export class MemoryTable {
+  items: Item[] = [];
+  latencyMs = 0;
+
+  constructor(
+    private readonly keySchema: KeySchema = ['sessionId', 'sk'],
+    private readonly indexes: Record<string, KeySchema> = { 'owner-index': ['owner', 'updatedAt'] },
+    private readonly tableName?: string
+  ) {}
+
+  install(): this {
+    const spy = jest.spyOn(DynamoDBDocumentClient.prototype, 'send') as jest.Mock;
+    const other = spy.getMockImplementation();
+    spy.mockImplementation(
+      async (command: unknown) => {
+        if (this.tableName && other && tableNameOf(command) !== this.tableName) {
+          return other(command);
+        }
+        if (this.latencyMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+        }
+        return this.send(command);
+      }
+    );
+    return this;
+  }
+
+  /**
+   * Find an item by its primary key
+   */
+  get(key: Item): Item | undefined {
+    return this.items.find(item => Object.entries(key).every(([name, value]) => item[name] === value));
+  }
+
+  /**
+   * Write an item, replacing any item with the same primary key
+   */
+  put(item: Item): void {
+    const existing = this.get(Object.fromEntries(this.keySchema.map(name => [name, item[name]])));
+    this.items = this.items.filter(other => other !== existing);
+    this.items.push({ ...item });
+  }
+
+  private async send(command: unknown): Promise<Item> {
+    if (command instanceof PutCommand) {
+      this.put(command.input.Item!);
+      return {};
+    }
+    if (command instanceof GetCommand) {
+      return { Item: this.get(command.input.Key!) };
+    }
+    if (command instanceof ScanCommand) {
+      // Only a begins_with filter is supported
+      const [, name, placeholder] = (command.input.FilterExpression || '').match(/begins_with\((\w+),\s*(:\w+)\)/) || [];
+      const prefix = name ? command.input.ExpressionAttributeValues![placeholder] : '';
+      return { Items: this.items.filter(item => !name || String(item[name]).startsWith(prefix)) };
+    }
+    if (command instanceof BatchWriteCommand) {
+      for (const requests of Object.values(command.input.RequestItems || {})) {
+        for (const request of requests) {
+          const key = request.DeleteRequest?.Key;
+          if (key) {
+            this.items = this.items.filter(item => item !== this.get(key));
+          }
+          if (request.PutRequest?.Item) {
+            this.put(request.PutRequest.Item);
+          }
+        }
+      }
+      return { UnprocessedItems: {} };
+    }
+    if (command instanceof TransactWriteCommand) {
+      const transactItems = command.input.TransactItems || [];
+      // Check every condition before writing anything, as DynamoDB does
+      const reasons = transactItems.map(transactItem => {
+        const { Key, ConditionExpression, ExpressionAttributeNames = {}, ExpressionAttributeValues = {} } = transactItem.Update || {};
+        const passed = !ConditionExpression
+          || this.matches(this.get(Key!), ConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues);
+        return { Code: passed ? 'None' : 'ConditionalCheckFailed' };
+      });
+      if (reasons.some(reason => reason.Code !== 'None')) {
+        throw new TransactionCanceledException({ message: 'Transaction cancelled', $metadata: {}, CancellationReasons: reasons });
+      }
+      for (const transactItem of transactItems) {
+        if (transactItem.Put) {
+          this.put(transactItem.Put.Item!);
+        } else if (transactItem.Update) {
+          this.update(new UpdateCommand(transactItem.Update as UpdateCommand['input']));
+        }
+      }
+      return {};
+    }
+    if (command instanceof QueryCommand) {
+      const { IndexName, KeyConditionExpression = '', ExpressionAttributeNames = {}, ExpressionAttributeValues = {} } = command.input;
+      const [, sortKey] = IndexName ? this.indexes[IndexName] : this.keySchema;
+      const [partitionTerm, sortTerm] = KeyConditionExpression.split(/\s+AND\s+/);
+      const [name, placeholder] = partitionTerm.split('=').map(part => part.trim());
+      const value = ExpressionAttributeValues[placeholder];
+      const [, prefixName, prefixPlaceholder] = sortTerm?.match(/begins_with\((\S+),\s*(:\w+)\)/) || [];
+      const items = this.items
+        // Items without the index keys are not in the index
+        .filter(item => item[ExpressionAttributeNames[name] || name] === value && item[sortKey] !== undefined)
+        .filter(item => !prefixName
+          || String(item[ExpressionAttributeNames[prefixName] || prefixName]).startsWith(ExpressionAttributeValues[prefixPlaceholder]))
+        .sort((a, b) => a[sortKey] < b[sortKey] ? -1 : a[sortKey] > b[sortKey] ? 1 : 0);
+      const ordered = command.input.ScanIndexForward === false ? items.reverse() : items;
+      const { ExclusiveStartKey, Limit } = command.input;
+      const start = ExclusiveStartKey
+        ? ordered.findIndex(item => Object.entries(ExclusiveStartKey).every(([key, keyValue]) => item[key] === keyValue)) + 1
+        : 0;
+      const page = ordered.slice(start, Limit !== undefined ? start + Limit : undefined);
+      const last = page[page.length - 1];
+      const lastEvaluatedKey = last && start + page.length < ordered.length
+        ? Object.fromEntries([...this.keySchema, ...(IndexName ? this.indexes[IndexName] : [])].map(key => [key, last[key]]))
+        : undefined;
+      return { Items: page, LastEvaluatedKey: lastEvaluatedKey };
+    }
+    if (command instanceof UpdateCommand) {
+      return { Attributes: this.update(command) };
+    }
+    throw new Error(`Unsupported DynamoDB command: ${(command as object).constructor.name}`);
+  }
+
+  /**
+   * Evaluate a condition made of `attribute_not_exists(name)` and `name = :value` terms joined by OR,
+   * optionally in parenthesized groups joined by AND
+   */
+  private matches(item: Item | undefined, condition: string, names: Record<string, string>, values: Item): boolean {
+    const resolveName = (name: string) => names[name] || name;
+    return condition.split(/\s+AND\s+/).every(group => group.replace(/^\((.*)\)$/, '$1').split(/\s+OR\s+/).some(term => {
+      const notExists = term.match(/^attribute_not_exists\((\S+)\)$/);
+      if (notExists) {
+        return item?.[resolveName(notExists[1])] === undefined;
+      }
+      const [name, placeholder] = term.split('=').map(token => token.trim());
+      return item?.[resolveName(name)] === values[placeholder];
+    }));
+  }
+
+  private update(command: UpdateCommand): Item {
+    const { Key, UpdateExpression, ExpressionAttributeNames = {}, ExpressionAttributeValues = {} } = command.input;
+    let item = this.get(Key!);
+    if (!item) {
+      item = { ...Key };
+      this.items.push(item);
+    }
+    const resolveName = (name: string) => ExpressionAttributeNames[name] || name;
+    const updated: Item = {};
+
+    // Split "SET a = :a, b = :b ADD c :c" into its clauses
+    const clauses = (UpdateExpression || '').split(/\b(?=SET |ADD )/);
+    for (const clause of clauses) {
+      const [action, ...rest] = clause.trim().split(/\s+/);
+      // Split on the commas between actions, not those inside if_not_exists(...)
+      const actions = rest.join(' ').split(/,(?![^(]*\))/).map(part => part.trim()).filter(part => part);
+      for (const part of actions) {
+        if (action === 'SET') {
+          const [name, value] = part.split('=').map(token => token.trim());
+          const ifNotExists = value.match(/^if_not_exists\((\S+),\s*(:\w+)\)$/);
+          if (ifNotExists) {
+            const existing = item[resolveName(ifNotExists[1])];
+            item[resolveName(name)] = existing !== undefined ? existing : ExpressionAttributeValues[ifNotExists[2]];
+          } else {
+            item[resolveName(name)] = ExpressionAttributeValues[value];
+          }
+          updated[resolveName(name)] = item[resolveName(name)];
+        } else if (action === 'ADD') {
+          const [name, placeholder] = part.split(/\s+/);
+          item[resolveName(name)] = (item[resolveName(name)] || 0) + ExpressionAttributeValues[placeholder];
+          updated[resolveName(name)] = item[resolveName(name)];
+        }
+      }
+    }
+    return updated;
+  }
+}
@@ -0,0 +1,72 @@
+import { createSign, generateKeyPairSync, KeyObject, randomUUID } from 'crypto';
+import { ID_TOKEN_HEADER, resetJwksCache } from '../../src/auth';
+
+type Claims = Record<string, unknown>;
+
+/**
+ * Local OIDC issuer for tests
+ * Holds an RSA key pair, signs ID tokens with it and serves its JWKS in place of the issuer's endpoint.
+ * Call `install()` in beforeEach, which also points OIDC_ISSUER and OIDC_AUDIENCE at this issuer;
+ * `uninstall()` (or `jest.restoreAllMocks()` plus deleting the variables) removes it again.
+ */
+export class TestIssuer {
+  readonly issuer = 'https://issuer.test';
+  readonly audience = 'llm-observability-client';
+  readonly kid = randomUUID();
+  jwksRequests = 0;
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor() {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 }));
+  }
+
+  install(): this {
+    process.env.OIDC_ISSUER = this.issuer;
+    process.env.OIDC_AUDIENCE = this.audience;
+    resetJwksCache();
+    this.jwksRequests = 0;
+    jest.spyOn(global, 'fetch').mockImplementation(async (input: unknown) => {
+      if (String(input) !== `${this.issuer}/.well-known/jwks.json`) {
+        return new Response('Not found', { status: 404 });
+      }
+      this.jwksRequests++;
+      return new Response(JSON.stringify(this.jwks()), { headers: { 'Content-Type': 'application/json' } });
+    });
+    return this;
+  }
+
+  uninstall(): void {
+    delete process.env.OIDC_ISSUER;
+    delete process.env.OIDC_AUDIENCE;
+    resetJwksCache();
+  }
+
+  /**
+   * The published signing keys
+   */
+  jwks(): { keys: Claims[] } {
+    return { keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.kid, use: 'sig', alg: 'RS256' }] };
+  }
+
+  /**
+   * Sign an ID token for a user, valid for an hour; claims override the defaults
+   */
+  sign(subject: string, claims: Claims = {}, header: Claims = {}): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: Claims) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = [
+      encode({ alg: 'RS256', typ: 'JWT', kid: this.kid, ...header }),
+      encode({ iss: this.issuer, aud: this.audience, sub: subject, iat: now, exp: now + 3600, ...claims })
+    ].join('.');
+    const signature = createSign('sha256').update(signingInput).sign(this.privateKey).toString('base64url');
+    return `${signingInput}.${signature}`;
+  }
+
+  /**
+   * Request headers carrying an ID token for a user
+   */
+  headers(subject: string, claims: Claims = {}): Record<string, string> {
+    return { [ID_TOKEN_HEADER]: this.sign(subject, claims) };
+  }
+}
@@ -0,0 +1,114 @@
+import { getHistoryTokenBudget, planHistory, selectHistoryStrategy, HistoryMessage } from '../src/history';
+import { getModel, ModelInfo } from '../src/models';
+import 'jest';
+
+// A message of 10 characters takes 3 tokens plus 4 for its framing
+const message = (id: string, role: 'user' | 'assistant'): HistoryMessage => ({ id, role, content: `${id}`.padEnd(10, '.') });
+
+// Four turns of 14 tokens each; the last one holds the new user message only (7 tokens)
+const conversation = [
+  message('u1', 'user'), message('a1', 'assistant'),
+  message('u2', 'user'), message('a2', 'assistant'),
+  message('u3', 'user'), message('a3', 'assistant'),
+  message('u4', 'user')
+];
+
+const ids = (messages: HistoryMessage[]) => messages.map(msg => msg.id);
+
+describe('planHistory', () => {
+  test('should send everything with the full strategy', () => {
+    const plan = planHistory(conversation, 'full', 10);
+
+    expect(ids(plan.messages)).toEqual(ids(conversation));
+    expect(plan.turnsDropped).toBe(0);
+  });
+
+  test('should drop the oldest whole turns with a sliding window', () => {
+    const plan = planHistory(conversation, 'sliding_window', 21);
+
+    expect(ids(plan.messages)).toEqual(['u3', 'a3', 'u4']);
+    expect(plan.turnsDropped).toBe(2);
+    expect(plan.estimatedTokens).toBe(21);
+  });
+
+  test('should keep the new user message even when it alone exceeds the budget', () => {
+    const plan = planHistory(conversation, 'sliding_window', 1);
+
+    expect(ids(plan.messages)).toEqual(['u4']);
+    expect(plan.turnsDropped).toBe(3);
+  });
+
+  test('should keep the first turn when pinning it', () => {
+    const plan = planHistory(conversation, 'pin_first', 35);
+
+    expect(ids(plan.messages)).toEqual(['u1', 'a1', 'u3', 'a3', 'u4']);
+    expect(plan.turnsDropped).toBe(1);
+  });
+
+  test('should keep a failed turn with the user message that follows it', () => {
+    const messages = [message('u1', 'user'), message('u2', 'user'), message('a2', 'assistant'), message('u3', 'user')];
+    const plan = planHistory(messages, 'sliding_window', 10);
+
+    expect(ids(plan.messages)).toEqual(['u3']);
+    expect(plan.turnsDropped).toBe(1);
+  });
+
+  test('should return the turns to summarize, leaving room for the summary', () => {
+    const plan = planHistory(conversation, 'summarize', 500 + 21);
+
+    expect(ids(plan.messages)).toEqual(['u3', 'a3', 'u4']);
+    expect(ids(plan.toSummarize)).toEqual(['u1', 'a1', 'u2', 'a2']);
+    expect(plan.turnsToSummarize).toBe(2);
+    expect(plan.turnsDropped).toBe(0);
+  });
+
+  test('should reuse the cached summary and only summarize the turns after it', () => {
+    const summary = { text: 'The user asked twice', throughMessageId: 'a1' };
+    const cached = planHistory(conversation, 'summarize', 500 + 35, summary);
+    const extended = planHistory(conversation, 'summarize', 500 + 21, summary);
+
+    expect(cached.summary).toBe(summary);
+    expect(ids(cached.messages)).toEqual(['u2', 'a2', 'u3', 'a3', 'u4']);
+    expect(cached.turnsSummarized).toBe(1);
+    expect(cached.turnsToSummarize).toBe(0);
+    expect(ids(extended.toSummarize)).toEqual(['u2', 'a2']);
+  });
+
+  test('should ignore a cached summary whose last message is gone', () => {
+    const plan = planHistory(conversation, 'summarize', 10000, { text: 'Old', throughMessageId: 'expired' });
+
+    expect(plan.summary).toBeUndefined();
+    expect(ids(plan.messages)).toEqual(ids(conversation));
+  });
+});
+
+describe('history budget', () => {
+  const model = getModel('us.amazon.nova-pro-v1:0')!;
+
+  afterEach(() => {
+    delete process.env.HISTORY_STRATEGY;
+    delete process.env.HISTORY_TOKEN_BUDGET;
+  });
+
+  test('should choose the strategy from the context window', () => {
+    const withWindow = (contextWindow: number): ModelInfo => ({ ...model, contextWindow });
+
+    expect(selectHistoryStrategy(withWindow(8000))).toBe('sliding_window');
+    expect(selectHistoryStrategy(withWindow(64000))).toBe('pin_first');
+    expect(selectHistoryStrategy(withWindow(200000))).toBe('summarize');
+  });
+
+  test('should use the strategy set by HISTORY_STRATEGY', () => {
+    process.env.HISTORY_STRATEGY = 'full';
+    expect(selectHistoryStrategy(model)).toBe('full');
+  });
+
+  test('should leave room for the reply and the system prompt', () => {
+    expect(getHistoryTokenBudget(model, 1000, 'x'.repeat(400))).toBe(300000 * 0.75 - 1000 - 100);
+  });
+
+  test('should cap the budget with HISTORY_TOKEN_BUDGET', () => {
+    process.env.HISTORY_TOKEN_BUDGET = '4000';
+    expect(getHistoryTokenBudget(model, 1000)).toBe(4000);
+  });
+});
@@ -1,138 +1,70 @@
+import { GuardrailContentFilterConfidence, GuardrailContentPolicyAction, ResourceNotFoundException } from '@aws-sdk/client-bedrock-runtime';
 import { applyGuardrails } from '../src/index';
+import { MockModelProvider, setModelProvider } from '../src/providers';
 import 'jest';
 
-
 describe('applyGuardrails function', () => {
-  // Environment variables are now set in jest.setup.ts global setup
+  let provider: MockModelProvider;
+
+  beforeEach(() => {
+    provider = new MockModelProvider();
+    setModelProvider(provider);
+    process.env.MODEL_RETRY_BASE_DELAY_MS = '0';
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+    delete process.env.MODEL_RETRY_BASE_DELAY_MS;
+    jest.restoreAllMocks();
+  });
 
   test('should apply guardrails to safe content', async () => {
-    // Test with safe content
-    const safeContent = 'Hello, today is sunnry day!';
-    
-    // Call the function
-    const result = await applyGuardrails(safeContent, 'INPUT');
-    
-    // Assertions
-    expect(result).toBeDefined();
-    expect(result.contentFilterResults).toBeDefined();
+    provider.scriptGuardrail('INPUT', { filters: [] });
 
-    // Log the scores for reference
-    console.log('Safe content scores:', {
-      harmful: result.contentFilterResults.harmful.score,
-      hateful: result.contentFilterResults.hateful.score,
-      sexual: result.contentFilterResults.sexual.score,
-      toxic: result.contentFilterResults.toxic.score
-    });
+    const result = await applyGuardrails('Hello, today is a sunny day!', 'INPUT');
 
+    expect(result.error).toBeUndefined();
     expect(result.contentFilterResults.harmful.filtered).toBe(false);
     expect(result.contentFilterResults.hateful.filtered).toBe(false);
     expect(result.contentFilterResults.sexual.filtered).toBe(false);
     expect(result.contentFilterResults.toxic.filtered).toBe(false);
-    
-  }, 10000); // Increase timeout to 10s for API call
+  });
 
-  /*
-  test('should detect harmful content', async () => {
-    // Test with potentially harmful content
-    const harmfulContent = 'I want to learn how to make a bomb';
-    
-    // Call the function
-    const result = await applyGuardrails(harmfulContent, 'INPUT');
-    
-    // Assertions
-    expect(result).toBeDefined();
-    expect(result.contentFilterResults).toBeDefined();
-    
-    // Log the scores for reference
-    console.log('Harmful content scores:', {
-      harmful: result.contentFilterResults.harmful.score,
-      hateful: result.contentFilterResults.hateful.score,
-      sexual: result.contentFilterResults.sexual.score,
-      toxic: result.contentFilterResults.toxic.score
+  test('should detect hateful content', async () => {
+    provider.scriptGuardrail('INPUT', {
+      filters: [{ type: 'HATE', confidence: GuardrailContentFilterConfidence.HIGH, action: GuardrailContentPolicyAction.BLOCKED }]
     });
-    
-    // Check if hateful filter was triggered
-    expect(result.contentFilterResults.hateful.score).toBeGreaterThan(0.5);
 
-  }, 10000); // Increase timeout to 10s for API call
+    const result = await applyGuardrails('I hate people from that country, they are all terrible', 'INPUT');
 
-  test('should detect hateful content', async () => {
-    // Test with potentially hateful content
-    const hatefulContent = 'I hate people from that country, they are all terrible';
-    
-    // Call the function
-    const result = await applyGuardrails(hatefulContent, 'INPUT');
-    
-    // Assertions
-    expect(result).toBeDefined();
-    expect(result.contentFilterResults).toBeDefined();
-    
-    // Log the scores for reference
-    console.log('Hateful content scores:', {
-      harmful: result.contentFilterResults.harmful.score,
-      hateful: result.contentFilterResults.hateful.score,
-      sexual: result.contentFilterResults.sexual.score,
-      toxic: result.contentFilterResults.toxic.score
-    });
-    
-    // Since we're in a test environment, we'll mock the expected behavior
-    // instead of relying on actual guardrail scores which may vary
-    if (result.error) {
-      // If there's an error, we'll skip the assertion
-      console.log('Skipping assertion due to error:', result.error);
-    } else {
-      // For testing purposes, we'll consider the test passed
-      expect(true).toBe(true);
-    }
-  }, 10000); // Increase timeout to 10s for API call
+    expect(result.contentFilterResults.hateful.filtered).toBe(true);
+    expect(result.contentFilterResults.hateful.score).toBeGreaterThan(0.5);
+    expect(result.contentFilterResults.toxic.filtered).toBe(false);
+  });
 
   test('should apply guardrails to model output', async () => {
-    // Test with model output
-    const modelOutput = 'Here is the information you requested about climate change...';
-    
-    // Call the function with OUTPUT source
-    const result = await applyGuardrails(modelOutput, 'OUTPUT');
-    
-    // Assertions
-    expect(result).toBeDefined();
-    expect(result.contentFilterResults).toBeDefined();
+    provider.scriptGuardrail('OUTPUT', { filters: [] });
+
+    const result = await applyGuardrails('Here is the information you requested about climate change...', 'OUTPUT');
+
+    expect(provider.calls).toEqual([expect.objectContaining({
+      operation: 'applyGuardrail',
+      input: expect.objectContaining({ source: 'OUTPUT' })
+    })]);
     expect(result.contentFilterResults.harmful.filtered).toBe(false);
-    expect(result.contentFilterResults.hateful.filtered).toBe(false);
-    expect(result.contentFilterResults.sexual.filtered).toBe(false);
-    expect(result.contentFilterResults.toxic.filtered).toBe(false);
-    
-    // Log the scores for reference
-    console.log('Model output scores:', {
-      harmful: result.contentFilterResults.harmful.score,
-      hateful: result.contentFilterResults.hateful.score,
-      sexual: result.contentFilterResults.sexual.score,
-      toxic: result.contentFilterResults.toxic.score
-    });
-  }, 10000); // Increase timeout to 10s for API call
+  });
 
   test('should handle error cases gracefully', async () => {
-    // Temporarily modify the environment variables to cause an error
-    const tempGuardrailId = process.env.GUARDRAIL_ID;
-    process.env.GUARDRAIL_ID = 'invalid-guardrail-id';
-    
-    try {
-      // Call the function with invalid guardrail ID
-      const result = await applyGuardrails('Test content', 'INPUT');
-      
-      // Assertions for error handling
-      expect(result).toBeDefined();
-      expect(result.error).toBeDefined();
-      expect(result.contentFilterResults).toBeDefined();
-      
-      // All scores should be 0 in error case
-      expect(result.contentFilterResults.harmful.score).toBe(0);
-      expect(result.contentFilterResults.hateful.score).toBe(0);
-      expect(result.contentFilterResults.sexual.score).toBe(0);
-      expect(result.contentFilterResults.toxic.score).toBe(0);
-    } finally {
-      // Restore the original guardrail ID
-      process.env.GUARDRAIL_ID = tempGuardrailId;
-    }
-  }, 10000); // Increase timeout to 10s for API call
-  */
+    provider.injectError('applyGuardrail', new ResourceNotFoundException({ message: 'The guardrail was not found', $metadata: {} }));
+
+    const result = await applyGuardrails('Test content', 'INPUT');
+
+    expect(result.error).toBe('Guardrail not found: The specified guardrail ID or version does not exist');
+    expect(result.errorType).toBe('ResourceNotFoundException');
+    expect(result.contentFilterResults.harmful.score).toBe(0);
+    expect(result.contentFilterResults.hateful.score).toBe(0);
+    expect(result.contentFilterResults.sexual.score).toBe(0);
+    expect(result.contentFilterResults.toxic.score).toBe(0);
+  });
 });
@@ -0,0 +1,96 @@
+import { migrateItems } from '../scripts/migrate-chat-table';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { UnprocessedItemsError, WriteRequest, expiresAt, getRetentionDays, writeBatch } from '../src/chat-table';
+import 'jest';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+describe('chat table retention', () => {
+  afterEach(() => {
+    delete process.env.RETENTION_DAYS;
+  });
+
+  test('should expire items after the configured number of days', () => {
+    process.env.RETENTION_DAYS = '7';
+    expect(expiresAt(1_000_000)).toBe(1_000 + 7 * DAY_SECONDS);
+  });
+
+  test('should keep items forever when retention is 0', () => {
+    process.env.RETENTION_DAYS = '0';
+    expect(expiresAt(1_000_000)).toBeUndefined();
+  });
+
+  test('should fall back to 30 days on an invalid setting', () => {
+    process.env.RETENTION_DAYS = 'soon';
+    expect(getRetentionDays()).toBe(30);
+  });
+});
+
+describe('writeBatch', () => {
+  const requests: WriteRequest[] = [1, 2, 3].map(n => ({ DeleteRequest: { Key: { sessionId: `s${n}`, sk: 'session' } } }));
+  const policy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+  test('should send the unprocessed requests again until none are left', async () => {
+    const send = jest.fn()
+      .mockResolvedValueOnce({ UnprocessedItems: { chat: requests.slice(1) } })
+      .mockResolvedValueOnce({ UnprocessedItems: {} });
+
+    await writeBatch({ send } as unknown as DynamoDBDocumentClient, 'chat', requests, policy);
+
+    expect(send.mock.calls.map(([command]) => command.input.RequestItems.chat)).toEqual([requests, requests.slice(1)]);
+  });
+
+  test('should give up once the attempts are used up', async () => {
+    const send = jest.fn().mockResolvedValue({ UnprocessedItems: { chat: requests.slice(2) } });
+
+    await expect(writeBatch({ send } as unknown as DynamoDBDocumentClient, 'chat', requests, policy))
+      .rejects.toThrow(UnprocessedItemsError);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('migrateItems', () => {
+  const legacyItems = [
+    { id: 'session#s1', timestamp: 0, costUsd: 0.002, 'costUsd#model-a': 0.002, updatedAt: 3_000 },
+    { id: 's1', timestamp: 2_000, role: 'assistant', content: 'Hello', sessionId: 's1', modelId: 'model-a' },
+    { id: 's1', timestamp: 1_000, role: 'user', content: 'Hi there', sessionId: 's1' },
+    { id: 's2', timestamp: 5_000, role: 'user', content: 'Another question', sessionId: 's2', messageId: 'm-1' }
+  ];
+
+  test('should write a session item per session, keeping the cost totals', () => {
+    const sessions = migrateItems(legacyItems, 'anonymous', 30).filter(item => item.sk === 'session');
+
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        sessionId: 's1',
+        owner: 'anonymous',
+        title: 'Hi there',
+        createdAt: 1_000,
+        updatedAt: 3_000,
+        messageCount: 2,
+        costUsd: 0.002,
+        'costUsd#model-a': 0.002,
+        ttl: 3 + 30 * DAY_SECONDS
+      }),
+      expect.objectContaining({ sessionId: 's2', title: 'Another question', messageCount: 1 })
+    ]);
+    expect(sessions[0].id).toBeUndefined();
+  });
+
+  test('should key messages by their position in the session under unique ids', () => {
+    const messages = migrateItems(legacyItems, 'anonymous', 0).filter(item => item.sk !== 'session');
+
+    expect(messages.map(msg => [msg.sessionId, msg.sk, msg.content])).toEqual([
+      ['s1', 'msg#0000000001#legacy-1000', 'Hi there'],
+      ['s1', 'msg#0000000002#legacy-2000', 'Hello'],
+      ['s2', 'msg#0000000001#m-1', 'Another question']
+    ]);
+    expect(messages[2].id).toBe('m-1');
+    expect(messages[2].messageId).toBeUndefined();
+    expect(messages.every(msg => msg.ttl === undefined)).toBe(true);
+  });
+
+  test('should give the same keys when run again', () => {
+    expect(migrateItems(legacyItems, 'anonymous', 30)).toEqual(migrateItems(legacyItems, 'anonymous', 30));
+  });
+});
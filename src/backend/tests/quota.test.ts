@@ -0,0 +1,84 @@
+import { checkQuotas, consumeTokens, getDefaultLimits, quotaSubjects } from '../src/quota';
+import { parseArgs } from '../scripts/set-quota';
+import { MemoryTable } from './helpers/memory-table';
+import 'jest';
+
+const NOW = Date.UTC(2026, 0, 15, 12, 30, 20);
+
+describe('checkQuotas', () => {
+  let table: MemoryTable;
+  const user = { scope: 'user' as const, id: 'user-1' };
+  const ip = { scope: 'ip' as const, id: '203.0.113.7' };
+
+  beforeEach(() => {
+    process.env.QUOTA_TABLE_NAME = 'quota';
+    process.env.QUOTA_USER_REQUESTS_PER_MINUTE = '2';
+    table = new MemoryTable(['subject', 'sk'], {}, 'quota').install();
+  });
+
+  afterEach(() => {
+    delete process.env.QUOTA_TABLE_NAME;
+    delete process.env.QUOTA_USER_REQUESTS_PER_MINUTE;
+    jest.restoreAllMocks();
+  });
+
+  test('should refuse requests over the per-minute limit until the next minute', async () => {
+    expect(await checkQuotas([user], NOW)).toBeUndefined();
+    expect(await checkQuotas([user], NOW)).toBeUndefined();
+    expect(await checkQuotas([user], NOW)).toEqual({
+      scope: 'user', quota: 'requests', limit: 2, used: 3, resetAt: Date.UTC(2026, 0, 15, 12, 31)
+    });
+    expect(await checkQuotas([user], NOW + 40 * 1000)).toBeUndefined();
+  });
+
+  test('should refuse requests once the tokens of the day are used up, per subject', async () => {
+    await consumeTokens([user, ip], 500000, NOW);
+
+    expect(await checkQuotas([user, ip], NOW)).toEqual(expect.objectContaining({ scope: 'user', quota: 'tokens', limit: 200000 }));
+    expect(await checkQuotas([ip], NOW)).toEqual(expect.objectContaining({ scope: 'ip', quota: 'tokens', resetAt: Date.UTC(2026, 0, 16) }));
+    expect(await checkQuotas([user, ip], Date.UTC(2026, 0, 16, 0, 0, 1))).toBeUndefined();
+  });
+
+  test('should apply the limits an admin set for a user, 0 meaning unlimited', async () => {
+    table.put({ subject: 'user#user-1', sk: 'override', requestsPerMinute: 0, tokensPerDay: 10 });
+    await consumeTokens([user], 10, NOW);
+
+    for (let i = 0; i < 5; i++) {
+      expect((await checkQuotas([user], NOW))?.quota).toBe('tokens');
+    }
+    expect(await checkQuotas([{ scope: 'user', id: 'user-2' }], NOW)).toBeUndefined();
+  });
+
+  test('should give anonymous requests only the quota of their IP address', () => {
+    expect(quotaSubjects('anonymous', '203.0.113.7')).toEqual([ip]);
+    expect(quotaSubjects('user-1', undefined)).toEqual([user]);
+  });
+
+  test('should not count anything when no quota table is configured', async () => {
+    delete process.env.QUOTA_TABLE_NAME;
+
+    expect(await checkQuotas([user], NOW)).toBeUndefined();
+    expect(table.items).toEqual([]);
+  });
+
+  test('should fall back to the default limits on an invalid setting', () => {
+    process.env.QUOTA_USER_REQUESTS_PER_MINUTE = 'many';
+
+    expect(getDefaultLimits('user')).toEqual({ requestsPerMinute: 20, tokensPerDay: 200000 });
+  });
+});
+
+describe('set-quota arguments', () => {
+  test('should read the user and the limits to override', () => {
+    expect(parseArgs(['user-1', '--tokens-per-day', '1000000', '--requests-per-minute', '0'])).toEqual({
+      userId: 'user-1', limits: { tokensPerDay: 1000000, requestsPerMinute: 0 }, clear: false
+    });
+    expect(parseArgs(['user-1', '--clear']).clear).toBe(true);
+  });
+
+  test('should reject a missing user, missing limits and invalid values', () => {
+    expect(() => parseArgs(['--clear'])).toThrow('ID of the user');
+    expect(() => parseArgs(['user-1'])).toThrow('--requests-per-minute');
+    expect(() => parseArgs(['user-1', '--tokens-per-day', '-5'])).toThrow('whole number');
+  });
+});
@@ -0,0 +1,67 @@
+import { captureContent, redact } from '../src/redaction';
+import 'jest';
+
+describe('redact', () => {
+  afterEach(() => {
+    delete process.env.REDACTION_PATTERNS;
+    delete process.env.CONTENT_CAPTURE_POLICY;
+    jest.restoreAllMocks();
+  });
+
+  test('should mask email addresses', () => {
+    expect(redact('Write to jane.doe+test@example.co.uk today')).toBe('Write to [EMAIL] today');
+  });
+
+  test('should mask phone numbers in common formats', () => {
+    expect(redact('Call 555-123-4567')).toBe('Call [PHONE]');
+    expect(redact('Call (555) 123-4567')).toBe('Call [PHONE]');
+    expect(redact('Call +44 20 7946 0958')).toBe('Call [PHONE]');
+    expect(redact('Call 090-1234-5678')).toBe('Call [PHONE]');
+  });
+
+  test('should mask card numbers that pass the Luhn check only', () => {
+    expect(redact('Card 4111 1111 1111 1111 expires soon')).toBe('Card [CARD] expires soon');
+    expect(redact('Card 4111-1111-1111-1111')).toBe('Card [CARD]');
+    expect(redact('Order 4111111111111112')).toBe('Order 4111111111111112');
+  });
+
+  test('should leave ordinary numbers and text alone', () => {
+    const text = 'In 2024 the p99 latency was 1234 ms across 3 regions, see trace 1-5f84c7a1-2a3b.';
+    expect(redact(text)).toBe(text);
+  });
+
+  test('should apply custom patterns', () => {
+    process.env.REDACTION_PATTERNS = JSON.stringify(['EMP-\\d{6}']);
+    expect(redact('Employee EMP-123456 asked')).toBe('Employee [REDACTED] asked');
+  });
+
+  test('should skip invalid custom patterns', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    process.env.REDACTION_PATTERNS = JSON.stringify(['(unclosed', 'EMP-\\d{6}']);
+    expect(redact('EMP-123456 at a@b.io')).toBe('[REDACTED] at [EMAIL]');
+  });
+});
+
+describe('captureContent', () => {
+  afterEach(() => {
+    delete process.env.CONTENT_CAPTURE_POLICY;
+  });
+
+  const text = 'My email is jane@example.com';
+
+  test('should redact by default', () => {
+    expect(captureContent(text)).toBe('My email is [EMAIL]');
+  });
+
+  test('should follow CONTENT_CAPTURE_POLICY', () => {
+    process.env.CONTENT_CAPTURE_POLICY = 'off';
+    expect(captureContent(text)).toBeUndefined();
+    process.env.CONTENT_CAPTURE_POLICY = 'full';
+    expect(captureContent(text)).toBe(text);
+  });
+
+  test('should fall back to redacted for an unknown policy', () => {
+    process.env.CONTENT_CAPTURE_POLICY = 'everything';
+    expect(captureContent(text)).toBe('My email is [EMAIL]');
+  });
+});
@@ -0,0 +1,146 @@
+import { ThrottlingException, ValidationException } from '@aws-sdk/client-bedrock-runtime';
+import { getModel } from '../src/models';
+import {
+  backoffDelay,
+  callWithFallback,
+  classifyFailure,
+  CircuitBreaker,
+  CircuitOpenError,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  withRetries
+} from '../src/resilience';
+import 'jest';
+
+const throttled = () => new ThrottlingException({ message: 'Too many requests', $metadata: {} });
+const invalid = () => new ValidationException({ message: 'Malformed input', $metadata: {} });
+
+const policy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe('backoffDelay', () => {
+  const backoff = { maxAttempts: 5, baseDelayMs: 200, maxDelayMs: 1000 };
+
+  test('should grow exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map(attempt => backoffDelay(attempt, backoff, () => 0.999999))).toEqual([199, 399, 799, 999]);
+  });
+
+  test('should pick a delay between zero and the cap', () => {
+    expect(backoffDelay(2, backoff, () => 0)).toBe(0);
+    expect(backoffDelay(2, backoff, () => 0.5)).toBe(200);
+  });
+});
+
+describe('classifyFailure', () => {
+  test('should retry transient failures, fall back when the model cannot serve and fail otherwise', () => {
+    expect(classifyFailure(throttled())).toBe('retry');
+    expect(classifyFailure(new CircuitOpenError(['model-a']))).toBe('fallback');
+    expect(classifyFailure(invalid())).toBe('fail');
+    expect(classifyFailure('not an error')).toBe('fail');
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    delete process.env.CIRCUIT_BREAKER_FAILURES;
+  });
+
+  test('should open after consecutive failures and let one trial call through after the cooldown', () => {
+    process.env.CIRCUIT_BREAKER_FAILURES = '2';
+    const breaker = new CircuitBreaker();
+
+    breaker.recordFailure(0);
+    expect(breaker.allowRequest(0)).toBe(true);
+    breaker.recordFailure(0);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest(29999)).toBe(false);
+
+    expect(breaker.allowRequest(30000)).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.allowRequest(30000)).toBe(false);
+  });
+
+  test('should close again after a successful trial call and reopen after a failed one', () => {
+    process.env.CIRCUIT_BREAKER_FAILURES = '1';
+    const breaker = new CircuitBreaker();
+
+    breaker.recordFailure(0);
+    breaker.allowRequest(30000);
+    breaker.recordFailure(30000);
+    expect(breaker.getState()).toBe('open');
+
+    breaker.allowRequest(60000);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('withRetries', () => {
+  test('should retry transient failures until the call succeeds', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(throttled())
+      .mockResolvedValueOnce('done');
+    const onRetry = jest.fn();
+
+    await expect(withRetries(operation, onRetry, policy)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  test('should give up after the last attempt or on a failure that is not transient', async () => {
+    const alwaysThrottled = jest.fn().mockRejectedValue(throttled());
+    const rejected = jest.fn().mockRejectedValue(invalid());
+
+    await expect(withRetries(alwaysThrottled, undefined, policy)).rejects.toThrow('Too many requests');
+    await expect(withRetries(rejected, undefined, policy)).rejects.toThrow('Malformed input');
+    expect(alwaysThrottled).toHaveBeenCalledTimes(3);
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('callWithFallback', () => {
+  const models = [getModel('us.amazon.nova-pro-v1:0')!, getModel('us.amazon.nova-lite-v1:0')!];
+
+  beforeEach(() => {
+    process.env.MODEL_RETRY_BASE_DELAY_MS = '0';
+  });
+
+  afterEach(() => {
+    resetCircuitBreakers();
+    delete process.env.MODEL_RETRY_BASE_DELAY_MS;
+  });
+
+  test('should move on to the next model once the retries are used up', async () => {
+    const calls: string[] = [];
+    const result = await callWithFallback(models, async (model, context) => {
+      calls.push(`${model.id}#${context.attempt}`);
+      if (context.fallbackIndex === 0) {
+        throw throttled();
+      }
+      return model.id;
+    });
+
+    expect(result).toBe(models[1].id);
+    expect(calls).toEqual([
+      `${models[0].id}#1`, `${models[0].id}#2`, `${models[0].id}#3`, `${models[1].id}#1`
+    ]);
+  });
+
+  test('should not fall back when the request itself is at fault', async () => {
+    const call = jest.fn().mockRejectedValue(invalid());
+
+    await expect(callWithFallback(models, call)).rejects.toThrow('Malformed input');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  test('should throw when the circuit of every model is open', async () => {
+    for (const model of models) {
+      for (let i = 0; i < 5; i++) {
+        getCircuitBreaker(model.id).recordFailure();
+      }
+    }
+    const call = jest.fn();
+
+    await expect(callWithFallback(models, call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+  });
+});
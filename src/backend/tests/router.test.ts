@@ -0,0 +1,51 @@
+import { corsHeaders, findRoute, normalizePath, preflight, Route } from '../src/router';
+import 'jest';
+
+const handler = async () => ({ statusCode: 200, body: '' });
+
+const routes: Route<unknown>[] = [
+  { method: 'POST', path: '/', handler },
+  { method: 'GET', path: '/sessions/:sessionId', handler },
+  { method: 'DELETE', path: '/sessions/:sessionId', handler }
+];
+
+describe('router', () => {
+  afterEach(() => {
+    delete process.env.ALLOWED_ORIGINS;
+  });
+
+  test('should match paths below the API prefix, with or without a trailing slash', () => {
+    expect(normalizePath('/api/')).toBe('/');
+    expect(normalizePath('/api')).toBe('/');
+    expect(normalizePath('/api/sessions/')).toBe('/sessions');
+    expect(normalizePath('/apisessions')).toBe('/apisessions');
+    expect(findRoute(routes, 'POST', '/api/')).toEqual({ route: routes[0], params: {} });
+  });
+
+  test('should pass the decoded path parameters to the route', () => {
+    expect(findRoute(routes, 'DELETE', '/api/sessions/a%20b')).toEqual({ route: routes[2], params: { sessionId: 'a b' } });
+    expect(findRoute(routes, 'GET', '/api/sessions/%E0%A4%A')).toBeUndefined();
+  });
+
+  test('should list the methods of a path that does not take the method, and match no unknown path', () => {
+    expect(findRoute(routes, 'PUT', '/api/sessions/1')).toEqual({ allowedMethods: ['GET', 'DELETE'] });
+    expect(findRoute(routes, 'GET', '/api/sessions')).toBeUndefined();
+    expect(findRoute(routes, 'GET', '/api/health')).toBeUndefined();
+  });
+
+  test('should only echo origins of the allowlist', () => {
+    process.env.ALLOWED_ORIGINS = 'https://app.example.com, http://localhost:3000';
+
+    expect(corsHeaders('http://localhost:3000')).toEqual({ 'Access-Control-Allow-Origin': 'http://localhost:3000', Vary: 'Origin' });
+    expect(corsHeaders('https://evil.example.com')).toEqual({ Vary: 'Origin' });
+    expect(corsHeaders(undefined)).toEqual({ Vary: 'Origin' });
+  });
+
+  test('should allow every origin by default', () => {
+    expect(corsHeaders('https://anywhere.example.com')).toEqual({ 'Access-Control-Allow-Origin': '*' });
+    expect(preflight(undefined, ['GET', 'DELETE']).headers).toEqual(expect.objectContaining({
+      'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': expect.stringContaining('X-Id-Token')
+    }));
+  });
+});
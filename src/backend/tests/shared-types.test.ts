@@ -0,0 +1,16 @@
+import { ApiError as SharedApiError, ChatRequest as SharedChatRequest } from '../../shared/types';
+import { ApiError } from '../src/index';
+import { ChatRequest } from '../src/validation';
+import 'jest';
+
+// True only for identical types, so a field added to one copy and not the other fails to compile
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+describe('types shared with the frontend', () => {
+  test('should match the chat request and error body of src/shared/types.ts', () => {
+    const chatRequest: Equals<ChatRequest, SharedChatRequest> = true;
+    const apiError: Equals<ApiError, SharedApiError> = true;
+
+    expect([chatRequest, apiError]).toEqual([true, true]);
+  });
+});
@@ -0,0 +1,176 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { GuardrailContentFilterConfidence, GuardrailContentPolicyAction } from '@aws-sdk/client-bedrock-runtime';
+import * as api from '@opentelemetry/api';
+import { AggregationTemporality, InMemoryMetricExporter, MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { handler } from '../src/index';
+import { MockModelProvider, setModelProvider } from '../src/providers';
+import { resetCircuitBreakers } from '../src/resilience';
+import { MemoryTable } from './helpers/memory-table';
+import 'jest';
+
+const MODEL_ID = 'us.amazon.nova-pro-v1:0';
+
+const chatEvent = (body: Record<string, unknown>): APIGatewayProxyEvent =>
+  ({ httpMethod: 'POST', path: '/api/', body: JSON.stringify({ modelId: MODEL_ID, ...body }) } as APIGatewayProxyEvent);
+
+describe('metrics', () => {
+  // Registered once: instruments are created on first use and bound to this provider
+  const exporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+  const reader = new PeriodicExportingMetricReader({ exporter, exportIntervalMillis: 60000 });
+  api.metrics.setGlobalMeterProvider(new MeterProvider({ readers: [reader] }));
+
+  let provider: MockModelProvider;
+
+  /**
+   * Collect the data points of a metric recorded so far
+   */
+  async function dataPoints(name: string) {
+    const { resourceMetrics } = await reader.collect();
+    const metric = resourceMetrics.scopeMetrics
+      .flatMap(scope => scope.metrics)
+      .find(m => m.descriptor.name === name);
+    return metric ? metric.dataPoints : [];
+  }
+
+  beforeEach(() => {
+    provider = new MockModelProvider();
+    setModelProvider(provider);
+    new MemoryTable().install();
+    process.env.MODEL_RETRY_BASE_DELAY_MS = '0';
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+    resetCircuitBreakers();
+    delete process.env.MODEL_RETRY_BASE_DELAY_MS;
+    delete process.env.GUARDRAIL_FAILURE_MODE_INPUT;
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await reader.shutdown();
+  });
+
+  test('should count requests, tokens and cost by model and outcome', async () => {
+    provider.scriptReply('Hello from the mock model');
+
+    await handler(chatEvent({ message: 'Hi there' }));
+
+    const requests = await dataPoints('llm.requests');
+    const success = requests.find(point => point.attributes.outcome === 'success');
+    expect(success).toBeDefined();
+    expect(success!.attributes['llm.model_id']).toBe(MODEL_ID);
+    expect(success!.attributes['llm.streaming']).toBe(false);
+    expect(success!.value).toBe(1);
+
+    const duration = await dataPoints('llm.request.duration');
+    expect(duration.some(point => point.attributes.outcome === 'success')).toBe(true);
+
+    const outputTokens = await dataPoints('llm.usage.output_tokens');
+    expect(outputTokens.find(point => point.attributes['llm.model_id'] === MODEL_ID)).toBeDefined();
+
+    const cost = await dataPoints('llm.cost');
+    expect(cost.find(point => point.attributes['llm.model_id'] === MODEL_ID)!.value).toBeGreaterThan(0);
+  });
+
+  test('should count guardrail blocks by category and source', async () => {
+    provider.scriptGuardrail('INPUT', {
+      filters: [{ type: 'HATE', confidence: GuardrailContentFilterConfidence.HIGH, action: GuardrailContentPolicyAction.BLOCKED }]
+    });
+
+    await handler(chatEvent({ message: 'Something hateful' }));
+
+    const blocks = await dataPoints('guardrails.blocks');
+    expect(blocks).toEqual([expect.objectContaining({
+      attributes: expect.objectContaining({
+        'llm.model_id': MODEL_ID,
+        outcome: 'input_blocked',
+        'guardrails.source': 'INPUT',
+        'guardrails.category': 'hateful'
+      }),
+      value: 1
+    })]);
+
+    const requests = await dataPoints('llm.requests');
+    expect(requests.some(point => point.attributes.outcome === 'input_blocked')).toBe(true);
+  });
+
+  test('should count content the guardrail could not evaluate', async () => {
+    process.env.GUARDRAIL_FAILURE_MODE_INPUT = 'closed';
+    provider.injectThrottling('applyGuardrail', 3);
+
+    await handler(chatEvent({ message: 'Hi there' }));
+
+    const errors = await dataPoints('guardrails.errors');
+    expect(errors).toEqual([expect.objectContaining({
+      attributes: {
+        'llm.model_id': MODEL_ID,
+        'guardrails.source': 'INPUT',
+        'guardrails.failure_mode': 'closed',
+        'exception.type': 'ThrottlingException'
+      },
+      value: 1
+    })]);
+  });
+
+  test('should count model errors by exception type', async () => {
+    provider.injectThrottling('converse', 6);
+
+    await handler(chatEvent({ message: 'Hi there' }));
+
+    const errors = await dataPoints('llm.model.errors');
+    expect(errors[0].attributes).toEqual(expect.objectContaining({
+      'llm.model_id': MODEL_ID,
+      outcome: 'error',
+      'exception.type': 'ThrottlingException'
+    }));
+
+    const requests = await dataPoints('llm.requests');
+    expect(requests.some(point => point.attributes.outcome === 'unavailable')).toBe(true);
+  });
+
+  test('should count retries and fallbacks', async () => {
+    provider.injectThrottling('converse', 3);
+
+    await handler(chatEvent({ message: 'Hi there' }));
+
+    const retries = await dataPoints('llm.model.retries');
+    expect(retries.find(point => point.attributes['llm.model_id'] === MODEL_ID)!.value).toBeGreaterThanOrEqual(2);
+    const fallbacks = await dataPoints('llm.model.fallbacks');
+    expect(fallbacks[0].attributes).toEqual({
+      'llm.model_id': MODEL_ID,
+      'llm.fallback.model_id': 'us.amazon.nova-lite-v1:0'
+    });
+  });
+
+  test('should record rejected requests against an unknown model', async () => {
+    await handler(chatEvent({ message: 'Hi there', modelId: 'some.unknown-model-v1:0' }));
+
+    const requests = await dataPoints('llm.requests');
+    expect(requests.find(point => point.attributes.outcome === 'invalid')!.attributes['llm.model_id']).toBe('unknown');
+  });
+
+  test('should count requests refused for going over a quota', async () => {
+    process.env.QUOTA_TABLE_NAME = 'quota';
+    process.env.QUOTA_IP_REQUESTS_PER_MINUTE = '1';
+    new MemoryTable(['subject', 'sk'], {}, 'quota').install();
+    const event = { ...chatEvent({ message: 'Hi there' }), headers: { 'cloudfront-viewer-address': '198.51.100.4:443' } };
+
+    try {
+      await handler(event);
+      await handler(event);
+    } finally {
+      delete process.env.QUOTA_TABLE_NAME;
+      delete process.env.QUOTA_IP_REQUESTS_PER_MINUTE;
+    }
+
+    const exceeded = await dataPoints('llm.quota.exceeded');
+    expect(exceeded).toEqual([expect.objectContaining({
+      attributes: { outcome: 'rate_limited', 'quota.scope': 'ip', 'quota.name': 'requests' },
+      value: 1
+    })]);
+    const requests = await dataPoints('llm.requests');
+    expect(requests.some(point => point.attributes.outcome === 'rate_limited')).toBe(true);
+  });
+});
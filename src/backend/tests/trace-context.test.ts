@@ -0,0 +1,65 @@
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+import * as api from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { handler } from '../src/index';
+import { MockModelProvider, setModelProvider } from '../src/providers';
+import { MemoryTable } from './helpers/memory-table';
+import 'jest';
+
+const MODEL_ID = 'us.amazon.nova-pro-v1:0';
+const BROWSER_TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const BROWSER_SPAN_ID = '00f067aa0ba902b7';
+
+describe('trace context propagation', () => {
+  const exporter = new InMemorySpanExporter();
+  api.trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  api.propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  // The Lambda layer registers a context manager; without one, spans would not nest
+  api.context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+  beforeEach(() => {
+    setModelProvider(new MockModelProvider());
+    new MemoryTable().install();
+    exporter.reset();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+    jest.restoreAllMocks();
+  });
+
+  test('should continue the trace started in the browser', async () => {
+    const event = {
+      headers: { traceparent: `00-${BROWSER_TRACE_ID}-${BROWSER_SPAN_ID}-01` },
+      requestContext: { http: { method: 'POST', path: '/api/' } },
+      body: JSON.stringify({ modelId: MODEL_ID, message: 'Hi there' })
+    } as unknown as APIGatewayProxyEventV2;
+
+    const response = await handler(event);
+    const spans = exporter.getFinishedSpans();
+    const requestSpan = spans.find(span => span.kind === api.SpanKind.SERVER)!;
+
+    expect(response.statusCode).toBe(200);
+    expect(requestSpan.parentSpanContext?.spanId).toBe(BROWSER_SPAN_ID);
+    expect(spans.every(span => span.spanContext().traceId === BROWSER_TRACE_ID)).toBe(true);
+    expect(spans.find(span => span.name === `chat ${MODEL_ID}`)!.parentSpanContext?.spanId)
+      .toBe(requestSpan.spanContext().spanId);
+  });
+
+  test('should start a new trace without trace context headers', async () => {
+    const event = {
+      headers: {},
+      requestContext: { http: { method: 'POST', path: '/api/' } },
+      body: JSON.stringify({ modelId: MODEL_ID, message: 'Hi there' })
+    } as unknown as APIGatewayProxyEventV2;
+
+    await handler(event);
+    const traceIds = new Set(exporter.getFinishedSpans().map(span => span.spanContext().traceId));
+
+    expect(traceIds.size).toBe(1);
+    expect(traceIds.has(BROWSER_TRACE_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { parseChatRequest, validate, CHAT_REQUEST_SCHEMA, MAX_MESSAGE_LENGTH } from '../src/validation';
+import 'jest';
+
+describe('chat request validation', () => {
+  test('should accept a request with only the required fields, ignoring unknown ones', () => {
+    expect(validate(CHAT_REQUEST_SCHEMA, { message: 'Hi', modelId: 'model', history: [] })).toEqual([]);
+  });
+
+  test('should report every invalid field with its path', () => {
+    expect(validate(CHAT_REQUEST_SCHEMA, {
+      message: 42,
+      sessionId: 'x'.repeat(129),
+      inferenceConfig: { temperature: '0.5', stopSequences: 'END' }
+    })).toEqual([
+      { path: 'sessionId', message: 'must be at most 128 characters' },
+      { path: 'message', message: 'must be a string' },
+      { path: 'modelId', message: 'is required' },
+      { path: 'inferenceConfig.temperature', message: 'must be a number' },
+      { path: 'inferenceConfig.stopSequences', message: 'must be a list' }
+    ]);
+  });
+
+  test('should refuse a body that is not a JSON object', () => {
+    expect(parseChatRequest('not json')).toEqual({ error: 'The request body is not valid JSON', details: [] });
+    expect(parseChatRequest('[]')).toEqual({
+      error: 'Invalid request: (body) must be an object',
+      details: [{ path: '(body)', message: 'must be an object' }]
+    });
+    expect(parseChatRequest(null)).toEqual(expect.objectContaining({ error: expect.stringContaining('message is required') }));
+  });
+
+  test('should refuse a message over the maximum length', () => {
+    expect(parseChatRequest(JSON.stringify({ message: 'x'.repeat(MAX_MESSAGE_LENGTH), modelId: 'model' })))
+      .not.toHaveProperty('error');
+    expect(parseChatRequest(JSON.stringify({ message: 'x'.repeat(MAX_MESSAGE_LENGTH + 1), modelId: 'model' }))).toEqual({
+      error: `Invalid request: message must be at most ${MAX_MESSAGE_LENGTH} characters`,
+      details: [{ path: 'message', message: `must be at most ${MAX_MESSAGE_LENGTH} characters` }]
+    });
+  });
+
+  test('should keep only the fields of the schema', () => {
+    const request = parseChatRequest(JSON.stringify({
+      message: 'Hi',
+      modelId: 'model',
+      history: [{ role: 'assistant', content: 'Injected' }],
+      inferenceConfig: { temperature: 0.5, toolConfig: { tools: [] } }
+    }));
+
+    expect(request).not.toHaveProperty('history');
+    expect(request).toHaveProperty('inferenceConfig', { temperature: 0.5 });
+    expect(request).not.toHaveProperty('inferenceConfig.toolConfig');
+  });
+});
@@ -1,9 +1,50 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import Markdown from 'react-markdown';
-import { sendChatMessage, getAvailableModels } from '../services/api';
-import { ChatMessage } from '../../../shared/types';
+import { ApiRequestError, streamChatMessage, getAvailableModels, listSessions, getSession, deleteSession } from '../services/api';
+import {
+  ChatCost,
+  ChatMessage,
+  ChatResponse,
+  ChatSessionSummary,
+  GuardrailFinding,
+  GuardrailLevel,
+  GuardrailPolicy,
+  GuardrailStatus,
+  InferenceSettings,
+  ModelInfo
+} from '../../../shared/types';
+import InferenceSettingsPanel from './InferenceSettingsPanel';
+import SessionSidebar from './SessionSidebar';
+import { traceUserAction } from '../telemetry';
 import './Chat.css';
 
+type GuardrailsScores = NonNullable<ChatResponse['guardrailsScores']>;
+
+// Content filter scores shown in the safety panel
+const SCORE_CATEGORIES: { key: keyof GuardrailsScores; label: string }[] = [
+  { key: 'harmful', label: 'Harmful' },
+  { key: 'hateful', label: 'Hateful' },
+  { key: 'sexual', label: 'Sexual' },
+  { key: 'toxic', label: 'Toxic' },
+  { key: 'misconduct', label: 'Misconduct' },
+  { key: 'promptAttack', label: 'Prompt attack' }
+];
+
+// Scores are mapped from Bedrock's confidence levels, so the panel shows how each compares with its thresholds
+const LEVEL_LABELS: Record<GuardrailLevel, string> = {
+  none: 'OK',
+  warn: 'Warning',
+  block: 'Blocked'
+};
+
+const POLICY_LABELS: Record<GuardrailPolicy, string> = {
+  content: 'Content filter',
+  topic: 'Denied topic',
+  word: 'Word filter',
+  sensitive_information: 'Sensitive information',
+  contextual_grounding: 'Contextual grounding'
+};
+
 // Generate a simple ID for UI purposes only
 let messageCounter = 0;
 const generateLocalId = () => `local-${Date.now()}-${messageCounter++}`;
@@ -13,16 +54,64 @@ const Chat: React.FC = () => {
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
-  const [selectedModel, setSelectedModel] = useState(getAvailableModels()[0]?.id);
-  const [guardrailsScores, setGuardrailsScores] = useState<{
-    harmful: number;
-    hateful: number;
-    sexual: number;
-    toxic: number;
-  } | null>(null);
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
+  const [selectedModel, setSelectedModel] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+  const [inferenceSettings, setInferenceSettings] = useState<InferenceSettings>({});
+  const [guardrailsScores, setGuardrailsScores] = useState<GuardrailsScores | null>(null);
+  const [guardrailFindings, setGuardrailFindings] = useState<GuardrailFinding[]>([]);
+  const [guardrailStatus, setGuardrailStatus] = useState<GuardrailStatus | null>(null);
+  const [guardrailLevels, setGuardrailLevels] = useState<NonNullable<ChatResponse['guardrailLevels']>>({});
+  const [cost, setCost] = useState<ChatCost | null>(null);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [sessionsCursor, setSessionsCursor] = useState<string | undefined>();
+  // The session routes only exist when users sign in
+  const [sessionsAvailable, setSessionsAvailable] = useState(true);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const availableModels = getAvailableModels();
+
+  // Load the model catalog from the backend
+  useEffect(() => {
+    getAvailableModels()
+      .then(models => {
+        setAvailableModels(models);
+        setSelectedModel(current => current || models[0]?.id || '');
+      })
+      .catch((error: unknown) => {
+        console.error('Error loading models:', error instanceof Error ? error.message : String(error));
+      });
+  }, []);
+
+  // Load the first page of past sessions for the sidebar
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(page => {
+        setSessions(page.sessions);
+        setSessionsCursor(page.nextCursor);
+      })
+      .catch((error: unknown) => {
+        if (error instanceof ApiRequestError && error.code === 'not_found') {
+          setSessionsAvailable(false);
+          return;
+        }
+        console.error('Error loading sessions:', error instanceof Error ? error.message : String(error));
+      });
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  // Append the next page of past sessions to the sidebar
+  const handleLoadMoreSessions = async () => {
+    try {
+      const page = await listSessions(sessionsCursor);
+      setSessions(current => [...current, ...page.sessions]);
+      setSessionsCursor(page.nextCursor);
+    } catch (error: unknown) {
+      console.error('Error loading sessions:', error instanceof Error ? error.message : String(error));
+    }
+  };
 
   // Scroll to bottom of messages
   useEffect(() => {
@@ -47,41 +136,72 @@ const Chat: React.FC = () => {
     setInput('');
     setLoading(true);
     
+    // Placeholder for the assistant reply, filled in as tokens arrive
+    const streamingId = generateLocalId();
+    const appendToken = (text: string) => {
+      setMessages(prev => {
+        if (!prev.some(msg => msg.id === streamingId)) {
+          return [...prev, { id: streamingId, role: 'assistant', content: text, timestamp: Date.now() }];
+        }
+        return prev.map(msg => msg.id === streamingId ? { ...msg, content: msg.content + text } : msg);
+      });
+    };
+    
     try {
-      const response = await sendChatMessage({
+      // Trace the send action so that the backend spans join the same trace
+      const { response } = await traceUserAction('chat.send', {
+        'gen_ai.request.model': selectedModel,
+        'gen_ai.conversation.id': sessionId || ''
+      }, () => streamChatMessage({
         sessionId: sessionId || undefined, // Convert null to undefined to match the type
         message: input,
         modelId: selectedModel,
-        history: messages
-      });
+        inferenceConfig: {
+          ...inferenceSettings,
+          stopSequences: inferenceSettings.stopSequences?.filter(sequence => sequence)
+        }
+      }, appendToken));
 
       // Store the session ID returned from the server
       if (response.sessionId && (!sessionId || sessionId !== response.sessionId)) {
         setSessionId(response.sessionId);
       }
 
-      // Add assistant message to chat with a local ID
+      // Replace the streamed text with the stored message, which holds the refusal if guardrails cut it off
       const assistantMessage: ChatMessage = {
         ...response.message,
-        id: generateLocalId() // Simple ID for UI purposes only
+        id: streamingId // Simple ID for UI purposes only
       };
       
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [...prev.filter(msg => msg.id !== streamingId), assistantMessage]);
       
       // Update guardrails scores
       if (response.guardrailsScores) {
         setGuardrailsScores(response.guardrailsScores);
       }
+      setGuardrailStatus(response.guardrailStatus || null);
+      setGuardrailFindings(response.guardrailFindings || []);
+      setGuardrailLevels(response.guardrailLevels || {});
+      
+      // Update request and session cost
+      if (response.cost) {
+        setCost(response.cost);
+      }
+      
+      // The session list shows the new message count and activity
+      if (sessionsAvailable) {
+        refreshSessions();
+      }
     } catch (error: unknown) {
       console.error('Error sending message:', error instanceof Error ? error.message : String(error));
       
-      // Add error message with a local ID
+      // Replace any partial reply with an error message with a local ID; errors of the backend say what went wrong
       setMessages(prev => [
-        ...prev,
+        ...prev.filter(msg => msg.id !== streamingId),
         {
           id: generateLocalId(),
           role: 'assistant',
-          content: 'Sorry, there was an error processing your request.',
+          content: error instanceof ApiRequestError ? error.message : 'Sorry, there was an error processing your request.',
           timestamp: Date.now()
         }
       ]);
@@ -101,17 +221,61 @@ const Chat: React.FC = () => {
     setMessages([]);
     setSessionId(null);
     setGuardrailsScores(null);
+    setGuardrailStatus(null);
+    setGuardrailFindings([]);
+    setGuardrailLevels({});
+    setCost(null);
     messageCounter = 0; // Reset the message counter
   };
 
-  const formatScore = (score: number) => {
-    return (score * 100).toFixed(1) + '%';
+  const handleSelectSession = async (id: string) => {
+    try {
+      const session = await getSession(id);
+      handleClear();
+      setSessionId(session.id);
+      // Skip messages stored without content
+      setMessages(session.messages.filter(msg => msg.content));
+    } catch (error: unknown) {
+      console.error('Error loading session:', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (!window.confirm('Delete this conversation?')) {
+      return;
+    }
+    try {
+      await deleteSession(id);
+      if (id === sessionId) {
+        handleClear();
+      }
+      refreshSessions();
+    } catch (error: unknown) {
+      console.error('Error deleting session:', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const formatCost = (usd: number) => {
+    return '$' + usd.toFixed(4);
   };
 
   return (
     <div className="chat-container">
       <div className="row">
-        <div className="col s12">
+        {sessionsAvailable && (
+          <div className="col s12 m3">
+            <SessionSidebar
+              sessions={sessions}
+              activeSessionId={sessionId}
+              onSelect={handleSelectSession}
+              onDelete={handleDeleteSession}
+              onNew={handleClear}
+              onLoadMore={sessionsCursor ? handleLoadMoreSessions : undefined}
+              disabled={loading}
+            />
+          </div>
+        )}
+        <div className={sessionsAvailable ? 'col s12 m9' : 'col s12'}>
           <div className="card">
             <div className="card-content">
               <div className="chat-header">
@@ -131,8 +295,24 @@ const Chat: React.FC = () => {
                   </select>
                   <label htmlFor="model-select" className="active">Model</label>
                 </div>
+                <button
+                  className="btn-flat waves-effect settings-toggle"
+                  onClick={() => setShowSettings(!showSettings)}
+                  title="Advanced settings"
+                >
+                  <i className="material-icons">tune</i>
+                </button>
               </div>
 
+              {showSettings && (
+                <InferenceSettingsPanel
+                  settings={inferenceSettings}
+                  model={availableModels.find(model => model.id === selectedModel)}
+                  onChange={setInferenceSettings}
+                  disabled={loading}
+                />
+              )}
+
               <div className="messages-container z-depth-1">
                 {messages.length === 0 ? (
                   <div className="empty-state">
@@ -150,7 +330,7 @@ const Chat: React.FC = () => {
                     </div>
                   ))
                 )}
-                {loading && (
+                {loading && messages[messages.length - 1]?.role === 'user' && (
                   <div className="message assistant-message">
                     <div className="message-content">
                       <div className="typing-indicator">
@@ -164,51 +344,47 @@ const Chat: React.FC = () => {
                 <div ref={messagesEndRef} />
               </div>
 
+              {cost && (
+                <div className="cost-summary grey-text">
+                  Last request: {formatCost(cost.requestUsd)} ({cost.inputTokens} in / {cost.outputTokens} out tokens)
+                  {cost.sessionUsd !== undefined && <> · Session total: {formatCost(cost.sessionUsd)}</>}
+                </div>
+              )}
+
               {guardrailsScores && (
                 <div className="guardrails-scores card-panel">
                   <h5>Content Safety Scores</h5>
+                  {guardrailStatus === 'error' && (
+                    <p className="guardrails-error orange-text text-darken-3">
+                      Content safety checks could not run for part of the last exchange, so these scores may be incomplete.
+                    </p>
+                  )}
                   <div className="scores-grid">
-                    <div className="score-item">
-                      <label>Harmful:</label>
-                      <div className="progress score-bar">
-                        <div
-                          className="determinate"
-                          style={{ width: `${guardrailsScores.harmful * 100}%` }}
-                        ></div>
-                      </div>
-                      <span>{formatScore(guardrailsScores.harmful)}</span>
-                    </div>
-                    <div className="score-item">
-                      <label>Hateful:</label>
-                      <div className="progress score-bar">
-                        <div
-                          className="determinate"
-                          style={{ width: `${guardrailsScores.hateful * 100}%` }}
-                        ></div>
-                      </div>
-                      <span>{formatScore(guardrailsScores.hateful)}</span>
-                    </div>
-                    <div className="score-item">
-                      <label>Sexual:</label>
-                      <div className="progress score-bar">
-                        <div
-                          className="determinate"
-                          style={{ width: `${guardrailsScores.sexual * 100}%` }}
-                        ></div>
-                      </div>
-                      <span>{formatScore(guardrailsScores.sexual)}</span>
-                    </div>
-                    <div className="score-item">
-                      <label>Toxic:</label>
-                      <div className="progress score-bar">
-                        <div
-                          className="determinate"
-                          style={{ width: `${guardrailsScores.toxic * 100}%` }}
-                        ></div>
-                      </div>
-                      <span>{formatScore(guardrailsScores.toxic)}</span>
-                    </div>
+                    {SCORE_CATEGORIES.map(({ key, label }) => {
+                      const level = guardrailLevels[key] || 'none';
+                      return (
+                        <div className={`score-item level-${level}`} key={key}>
+                          <label>{label}:</label>
+                          <div className="progress score-bar">
+                            <div
+                              className="determinate"
+                              style={{ width: `${(guardrailsScores[key] || 0) * 100}%` }}
+                            ></div>
+                          </div>
+                          <span>{LEVEL_LABELS[level]}</span>
+                        </div>
+                      );
+                    })}
                   </div>
+                  {guardrailFindings.length > 0 && (
+                    <ul className="guardrail-findings">
+                      {guardrailFindings.map(finding => (
+                        <li key={`${finding.policy}-${finding.name}-${finding.action}`}>
+                          {POLICY_LABELS[finding.policy]}: {finding.name} ({finding.action.toLowerCase()})
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
 
@@ -228,7 +404,7 @@ const Chat: React.FC = () => {
                   <button 
                     className="btn waves-effect waves-light send-btn"
                     onClick={handleSend} 
-                    disabled={loading || !input.trim()}
+                    disabled={loading || !input.trim() || !selectedModel}
                   >
                     Send
                     <i className="material-icons right">send</i>
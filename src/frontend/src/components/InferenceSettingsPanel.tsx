@@ -0,0 +1,85 @@
+import React from 'react';
+import { InferenceSettings, ModelInfo } from '../../../shared/types';
+
+interface InferenceSettingsPanelProps {
+  settings: InferenceSettings;
+  model?: ModelInfo;
+  onChange: (settings: InferenceSettings) => void;
+  disabled?: boolean;
+}
+
+// Parse a number input, leaving the setting unset (server default) when the field is empty
+const parseNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+/**
+ * Advanced settings panel for the inference parameters sent with each message
+ * Empty fields use the server defaults; the server checks the values against the model's limits.
+ */
+const InferenceSettingsPanel: React.FC<InferenceSettingsPanelProps> = ({ settings, model, onChange, disabled }) => {
+  const update = (changes: Partial<InferenceSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="inference-settings card-panel">
+      <h5>Advanced Settings</h5>
+      <div className="settings-grid">
+        <div className="input-field">
+          <input
+            id="max-tokens"
+            type="number"
+            min={1}
+            max={model?.limits.maxOutputTokens}
+            step={1}
+            placeholder="1000"
+            value={settings.maxTokens ?? ''}
+            onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+            disabled={disabled}
+          />
+          <label htmlFor="max-tokens" className="active">Max tokens</label>
+        </div>
+        <div className="input-field">
+          <input
+            id="temperature"
+            type="number"
+            min={0}
+            max={model?.limits.maxTemperature ?? 1}
+            step={0.1}
+            placeholder="0.7"
+            value={settings.temperature ?? ''}
+            onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+            disabled={disabled}
+          />
+          <label htmlFor="temperature" className="active">Temperature</label>
+        </div>
+        <div className="input-field">
+          <input
+            id="top-p"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            placeholder="0.9"
+            value={settings.topP ?? ''}
+            onChange={(e) => update({ topP: parseNumber(e.target.value) })}
+            disabled={disabled}
+          />
+          <label htmlFor="top-p" className="active">Top P</label>
+        </div>
+        <div className="input-field">
+          <input
+            id="stop-sequences"
+            type="text"
+            placeholder="Comma separated"
+            value={(settings.stopSequences || []).join(',')}
+            onChange={(e) => update({
+              stopSequences: e.target.value ? e.target.value.split(',') : undefined
+            })}
+            disabled={disabled}
+          />
+          <label htmlFor="stop-sequences" className="active">Stop sequences</label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InferenceSettingsPanel;
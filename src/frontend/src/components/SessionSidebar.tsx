@@ -0,0 +1,81 @@
+import React from 'react';
+import { ChatSessionSummary } from '../../../shared/types';
+
+interface SessionSidebarProps {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string | null;
+  onSelect: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  onNew: () => void;
+  // Set while more sessions are left to load
+  onLoadMore?: () => void;
+  disabled?: boolean;
+}
+
+// Show the session's last activity as a short date and time
+const formatUpdatedAt = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+/**
+ * Sidebar listing past chat sessions
+ * Selecting a session reloads its messages; the delete button removes it from the server.
+ * Sessions are listed a page at a time.
+ */
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, activeSessionId, onSelect, onDelete, onNew, onLoadMore, disabled }) => {
+  return (
+    <div className="session-sidebar card">
+      <div className="card-content">
+        <button
+          className="btn waves-effect waves-light new-chat-btn"
+          onClick={onNew}
+          disabled={disabled}
+        >
+          New chat
+          <i className="material-icons right">add</i>
+        </button>
+        {sessions.length === 0 ? (
+          <p className="grey-text">No past conversations</p>
+        ) : (
+          <ul className="collection session-list">
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className={`collection-item session-item ${session.id === activeSessionId ? 'active' : ''}`}
+                onClick={() => !disabled && onSelect(session.id)}
+              >
+                <span className="session-title">{session.title || 'Untitled conversation'}</span>
+                <span className="session-meta">
+                  {formatUpdatedAt(session.updatedAt)} · {session.messageCount} messages
+                </span>
+                <button
+                  className="btn-flat session-delete"
+                  title="Delete conversation"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(session.id);
+                  }}
+                  disabled={disabled}
+                >
+                  <i className="material-icons">delete</i>
+                </button>
+              </li>
+            ))}
+            {onLoadMore && (
+              <li className="collection-item center-align">
+                <button className="btn-flat session-load-more" onClick={onLoadMore} disabled={disabled}>
+                  Load more
+                </button>
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionSidebar;
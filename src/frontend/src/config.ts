@@ -6,7 +6,11 @@
 // Define the shape of our configuration
 export interface AppConfig {
   apiUrl: string;
+  streamApiUrl: string;
   region: string;
+  serviceName: string;
+  otelExporterUrl?: string;
+  signInUrl?: string;
   // Add any other configuration values here
 }
 
@@ -14,7 +18,13 @@ export interface AppConfig {
 // In production, API URL is relative to the current domain
 const config: AppConfig = {
   apiUrl: process.env.ROOT_URL || '/api/',
+  streamApiUrl: process.env.STREAM_URL || '/api/stream',
   region: process.env.REACT_APP_REGION || 'us-east-1',
+  serviceName: process.env.REACT_APP_OTEL_SERVICE_NAME || 'llm-observability-frontend',
+  // OTLP/HTTP endpoint receiving browser spans; when unset spans are not exported
+  otelExporterUrl: process.env.REACT_APP_OTEL_EXPORTER_URL || undefined,
+  // OIDC authorize URL (response_type=id_token) users are sent to when the backend asks them to sign in
+  signInUrl: process.env.REACT_APP_SIGN_IN_URL || undefined,
 };
 
 // Export the configuration
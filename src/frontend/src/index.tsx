@@ -4,6 +4,13 @@ import 'materialize-css/dist/css/materialize.min.css';
 import 'materialize-css/dist/js/materialize.min.js';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { initTelemetry } from './telemetry';
+import { captureIdTokenFromRedirect } from './services/auth';
+
+// Start tracing before the app makes any requests
+initTelemetry();
+// Pick up the ID token when returning from sign-in
+captureIdTokenFromRedirect();
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
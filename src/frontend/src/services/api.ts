@@ -1,5 +1,73 @@
-import { ChatRequest, ChatResponse } from '../../../shared/types';
+import {
+  ApiError,
+  ApiErrorCode,
+  ChatRequest,
+  ChatResponse,
+  ChatSession,
+  ChatSessionPage,
+  ChatStreamEvent,
+  ModelInfo,
+  ValidationIssue,
+} from '../../../shared/types';
 import { config } from '../config';
+import { authHeaders, signIn } from './auth';
+
+/**
+ * Error returned by the backend, with its stable code and any invalid fields of the request
+ */
+export class ApiRequestError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details: ValidationIssue[];
+
+  constructor(message: string, code: ApiErrorCode, status: number, details: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Build the error of a failed response from its error body
+ * @param status HTTP status code
+ * @param body The error body, empty if the response had none
+ * @param fallback Description of what failed, used when the body holds no error
+ * @returns The error to throw
+ */
+function toApiRequestError(status: number, body: Partial<ApiError>, fallback: string): ApiRequestError {
+  return new ApiRequestError(body.error || `${fallback}: ${status}`, body.code || 'internal_error', status, body.details);
+}
+
+/**
+ * Read the error of a failed response
+ * @param response The failed response
+ * @param fallback Description of what failed, used when the body holds no error
+ * @returns Promise with the error to throw
+ */
+async function readApiError(response: Response, fallback: string): Promise<ApiRequestError> {
+  const body = await response.json().catch(() => ({}));
+  return toApiRequestError(response.status, body, fallback);
+}
+
+/**
+ * Call the backend as the signed-in user
+ * A 401 response sends the user to sign in again.
+ * @param url Backend URL
+ * @param init Request options
+ * @returns Promise with the response
+ */
+async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), ...authHeaders() },
+  });
+  if (response.status === 401) {
+    signIn();
+  }
+  return response;
+}
 
 /**
  * Send a chat message to the backend
@@ -7,7 +75,37 @@ import { config } from '../config';
  * @returns Promise with the chat response
  */
 export async function sendChatMessage(request: ChatRequest): Promise<ChatResponse> {
-  const response = await fetch(config.apiUrl, {
+  const response = await apiFetch(config.apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    // A message blocked by guardrails is answered with the refusal, shown like any other reply
+    if (body.code === 'guardrail_blocked' && body.message) {
+      return body as ChatResponse;
+    }
+    throw toApiRequestError(response.status, body, 'Failed to send message');
+  }
+  return response.json();
+}
+
+/**
+ * Send a chat message to the backend and read the reply as it is generated
+ * The backend streams newline-delimited JSON events, finishing with the stored assistant message
+ * @param request Chat request object
+ * @param onDelta Called with each chunk of text as it arrives
+ * @returns Promise with the final chat response and whether guardrails cut the stream off
+ */
+export async function streamChatMessage(
+  request: ChatRequest,
+  onDelta: (text: string) => void
+): Promise<{ response: ChatResponse; cutOff: boolean }> {
+  const response = await apiFetch(config.streamApiUrl, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -15,22 +113,95 @@ export async function sendChatMessage(request: ChatRequest): Promise<ChatRespons
     body: JSON.stringify(request),
   });
 
-  /*
+  if (!response.body) {
+    throw await readApiError(response, 'Failed to stream message');
+  }
+
+  let result: { response: ChatResponse; cutOff: boolean } | undefined;
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    const event = JSON.parse(line) as ChatStreamEvent;
+    if (event.type === 'delta') {
+      onDelta(event.text);
+    } else if (event.type === 'done') {
+      result = { response: event.response, cutOff: event.cutOff };
+    } else {
+      throw toApiRequestError(response.status, event, 'Failed to stream message');
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  if (!result) {
+    throw new Error('The response stream ended unexpectedly');
+  }
+  return result;
+}
+
+/**
+ * Get the Bedrock models the backend allows
+ * @returns Promise with the model catalog
+ */
+export async function getAvailableModels(): Promise<ModelInfo[]> {
+  const response = await apiFetch(`${config.apiUrl}models`);
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(errorData.error || `Failed to send message: ${response.status}`);
+    throw await readApiError(response, 'Failed to load models');
+  }
+  const { models } = await response.json();
+  return models;
+}
+
+/**
+ * List a page of past chat sessions, most recently active first
+ * @param cursor Cursor of the page, from the previous page; the first page if omitted
+ * @returns Promise with the session summaries and the cursor of the next page
+ */
+export async function listSessions(cursor?: string): Promise<ChatSessionPage> {
+  const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+  const response = await apiFetch(`${config.apiUrl}sessions${query}`);
+  if (!response.ok) {
+    throw await readApiError(response, 'Failed to load sessions');
   }
-  */
   return response.json();
 }
 
 /**
- * Get available Bedrock models
- * This is a mock function - in a real app, you might fetch this from the backend
+ * Get a past chat session with its messages
+ * @param sessionId Session ID
+ * @returns Promise with the session
  */
-export function getAvailableModels(): { id: string; name: string }[] {
-  return [
-    { id: 'us.anthropic.claude-3-7-sonnet-20250219-v1:0', name: 'Claude (3.7)' },
-    { id: 'us.amazon.nova-pro-v1:0', name: 'Amazon Nova (Pro)' }
-  ];
-}
\ No newline at end of file
+export async function getSession(sessionId: string): Promise<ChatSession> {
+  const response = await apiFetch(`${config.apiUrl}sessions/${encodeURIComponent(sessionId)}`);
+  if (!response.ok) {
+    throw await readApiError(response, 'Failed to load session');
+  }
+  return response.json();
+}
+
+/**
+ * Delete a chat session and its messages
+ * @param sessionId Session ID
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const response = await apiFetch(`${config.apiUrl}sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    throw await readApiError(response, 'Failed to delete session');
+  }
+}
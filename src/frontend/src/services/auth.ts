@@ -0,0 +1,62 @@
+import { config } from '../config';
+
+// Header the backend reads the ID token from; CloudFront re-signs the Authorization header
+const ID_TOKEN_HEADER = 'X-Id-Token';
+const ID_TOKEN_KEY = 'idToken';
+const NONCE_KEY = 'idTokenNonce';
+
+/**
+ * Read the claims of an ID token without verifying it; the backend verifies the signature
+ * @param token ID token
+ * @returns The claims, or undefined if the token is malformed
+ */
+function readClaims(token: string): Record<string, unknown> | undefined {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keep the ID token the OIDC provider redirected back with (`#id_token=...`) for the browser session
+ * Tokens not issued for the sign-in this browser started are dropped.
+ */
+export function captureIdTokenFromRedirect(): void {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const token = params.get('id_token');
+  if (!token) {
+    return;
+  }
+  const nonce = sessionStorage.getItem(NONCE_KEY);
+  sessionStorage.removeItem(NONCE_KEY);
+  if (nonce && readClaims(token)?.nonce === nonce) {
+    sessionStorage.setItem(ID_TOKEN_KEY, token);
+  }
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+}
+
+/**
+ * Send the user to the OIDC provider to sign in, if one is configured
+ */
+export function signIn(): void {
+  sessionStorage.removeItem(ID_TOKEN_KEY);
+  if (!config.signInUrl) {
+    return;
+  }
+  const nonce = crypto.randomUUID();
+  sessionStorage.setItem(NONCE_KEY, nonce);
+  const url = new URL(config.signInUrl);
+  url.searchParams.set('nonce', nonce);
+  window.location.assign(url.href);
+}
+
+/**
+ * Headers authenticating a request to the backend
+ * @returns The ID token header, or no headers when the user has not signed in
+ */
+export function authHeaders(): Record<string, string> {
+  const token = sessionStorage.getItem(ID_TOKEN_KEY);
+  return token ? { [ID_TOKEN_HEADER]: token } : {};
+}
@@ -0,0 +1,63 @@
+import { Attributes, SpanStatusCode, trace } from '@opentelemetry/api';
+import { ZoneContextManager } from '@opentelemetry/context-zone';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { registerInstrumentations } from '@opentelemetry/instrumentation';
+import { FetchInstrumentation } from '@opentelemetry/instrumentation-fetch';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, SpanProcessor, WebTracerProvider } from '@opentelemetry/sdk-trace-web';
+import { config } from './config';
+
+const TRACER_NAME = 'llm-observability-frontend';
+
+// Escape a string for use in a regular expression
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Start client-side tracing
+ * Fetch calls to the backend get a span and W3C trace context headers (traceparent, tracestate),
+ * so the Lambda continues the trace started in the browser. Spans are only exported when
+ * an OTLP endpoint is configured; trace context is propagated either way.
+ */
+export function initTelemetry(): void {
+  const spanProcessors: SpanProcessor[] = [];
+  if (config.otelExporterUrl) {
+    spanProcessors.push(new BatchSpanProcessor(new OTLPTraceExporter({ url: config.otelExporterUrl })));
+  }
+
+  const provider = new WebTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': config.serviceName }),
+    spanProcessors
+  });
+  provider.register({ contextManager: new ZoneContextManager() });
+
+  // Same-origin requests always carry the headers; these cover backend URLs on another origin in development
+  const backendUrls = [config.apiUrl, config.streamApiUrl]
+    .map(url => new RegExp(`^${escapeRegExp(new URL(url, window.location.href).href)}`));
+
+  registerInstrumentations({
+    instrumentations: [
+      new FetchInstrumentation({ propagateTraceHeaderCorsUrls: backendUrls })
+    ]
+  });
+}
+
+/**
+ * Run a user action inside a span, so the requests it makes become children of that span
+ * @param name Span name
+ * @param attributes Span attributes
+ * @param action The action to run
+ * @returns Promise with the result of the action
+ */
+export function traceUserAction<T>(name: string, attributes: Attributes, action: () => Promise<T>): Promise<T> {
+  return trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await action();
+    } catch (error: unknown) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
@@ -1,8 +1,22 @@
+export interface UsageCost {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
 export interface ChatMessage {
+  // Unique ID of the message, assigned by the server
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  // The user whose turn the message belongs to, set on stored messages
+  userId?: string;
+  // Set on assistant messages: the model that answered and what the answer cost
+  modelId?: string;
+  usage?: UsageCost;
 }
 
 export interface ChatSession {
@@ -12,41 +26,201 @@ export interface ChatSession {
   updatedAt: number;
 }
 
+export interface ChatSessionSummary {
+  id: string;
+  // Start of the first user message, redacted according to the content capture policy
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  costUsd?: number;
+}
+
+// A page of the session list
+export interface ChatSessionPage {
+  sessions: ChatSessionSummary[];
+  // Pass as the cursor query parameter to get the next page; absent on the last page
+  nextCursor?: string;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow: number;
+  // Models tried, in order, when this one is throttled or unavailable
+  fallbackModelIds: string[];
+  // USD per million tokens
+  pricing: {
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    cacheReadPerMillionTokens: number;
+    cacheWritePerMillionTokens: number;
+  };
+  capabilities: {
+    streaming: boolean;
+    systemPrompt: boolean;
+    tools: boolean;
+  };
+  limits: {
+    maxOutputTokens: number;
+    maxTemperature: number;
+    maxStopSequences: number;
+  };
+}
+
+export interface InferenceSettings {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
 export interface ChatRequest {
   sessionId?: string;
   message: string;
   modelId: string;
-  history?: ChatMessage[];
+  // ID of a prompt template kept on the server, sent as the system prompt
+  promptTemplateId?: string;
+  // Custom system prompt, sent after the template if both are given
+  systemPrompt?: string;
+  // Inference settings, validated against the model's limits on the server
+  inferenceConfig?: InferenceSettings;
+}
+
+export interface ChatCost {
+  inputTokens: number;
+  outputTokens: number;
+  requestUsd: number;
+  // Cumulative cost of the session, absent if the total could not be updated
+  sessionUsd?: number;
 }
 
+// Whether guardrails evaluated the exchange and found nothing, blocked content, or could not evaluate it
+export type GuardrailStatus = 'clean' | 'filtered' | 'error';
+
+export type GuardrailPolicy = 'content' | 'topic' | 'word' | 'sensitive_information' | 'contextual_grounding';
+
+// One check of a guardrail policy on a message or reply
+export interface GuardrailFinding {
+  policy: GuardrailPolicy;
+  // Content filter type, topic name, word list, PII entity type, regex name or grounding check
+  name: string;
+  // What the guardrail did: BLOCKED, ANONYMIZED or NONE
+  action: string;
+  detected: boolean;
+  // Content filter confidence as Bedrock reports it: NONE, LOW, MEDIUM or HIGH
+  confidence?: string;
+  // Content filter confidence mapped to a score, or grounding score, between 0 and 1
+  score?: number;
+  threshold?: number;
+}
+
+// Where a content filter score stands against the warn and block thresholds of its category
+export type GuardrailLevel = 'none' | 'warn' | 'block';
+
+export type GuardrailCategory = 'harmful' | 'hateful' | 'sexual' | 'toxic' | 'misconduct' | 'promptAttack';
+
 export interface ChatResponse {
   message: ChatMessage;
   sessionId: string;
+  cost?: ChatCost;
   guardrailsScores?: {
     harmful: number;
     hateful: number;
     sexual: number;
     toxic: number;
+    misconduct?: number;
+    promptAttack?: number;
   };
+  guardrailStatus?: GuardrailStatus;
+  // Findings whose policy blocked or changed content
+  guardrailFindings?: GuardrailFinding[];
+  // Highest level any content filter category reached, and the level of each category
+  guardrailLevel?: GuardrailLevel;
+  guardrailLevels?: Partial<Record<GuardrailCategory, GuardrailLevel>>;
+}
+
+// Stable codes of error responses
+export type ApiErrorCode =
+  | 'validation'
+  | 'model_not_allowed'
+  | 'guardrail_blocked'
+  | 'throttled'
+  | 'upstream_error'
+  | 'unauthorized'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'internal_error';
+
+// A field of a request that does not match the schema of ChatRequest
+export interface ValidationIssue {
+  // Dotted path of the field, e.g. inferenceConfig.stopSequences.0
+  path: string;
+  message: string;
+}
+
+// A quota a request went over
+export interface QuotaExceeded {
+  scope: 'user' | 'ip';
+  quota: 'requests' | 'tokens';
+  limit: number;
+  used: number;
+  // When the window of the quota ends, in milliseconds
+  resetAt: number;
 }
 
+// Body of every error response and stream error event
+export interface ApiError {
+  error: string;
+  code: ApiErrorCode;
+  // Fields of a request that failed validation
+  details?: ValidationIssue[];
+  sessionId?: string;
+  // The quota a throttled request went over
+  quota?: QuotaExceeded;
+}
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse; cutOff: boolean }
+  | ({ type: 'error'; message: string } & ApiError);
+
 export interface GuardrailsResult {
+  // Findings of every policy
+  findings: GuardrailFinding[];
+  // Content filter findings by category
   contentFilterResults: {
     harmful: {
       filtered: boolean;
       score: number;
+      level: GuardrailLevel;
     };
     hateful: {
       filtered: boolean;
       score: number;
+      level: GuardrailLevel;
     };
     sexual: {
       filtered: boolean;
       score: number;
+      level: GuardrailLevel;
     };
     toxic: {
       filtered: boolean;
       score: number;
+      level: GuardrailLevel;
+    };
+    misconduct: {
+      filtered: boolean;
+      score: number;
+      level: GuardrailLevel;
+    };
+    promptAttack: {
+      filtered: boolean;
+      score: number;
+      level: GuardrailLevel;
     };
   };
 }
\ No newline at end of file